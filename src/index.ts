@@ -4,10 +4,14 @@ import { parseArgs } from './utils/args.js';
 import { startMcpServer } from './mcp/server.js';
 import { discoverAllCommands } from './utils/helpParser.js';
 import { saveCommandCache, getCacheFileName, loadCommandCache } from './utils/cache.js';
+import { loadServerConfig } from './utils/config.js';
 import { createLogger } from './utils/logger.js';
+import { ServerConfig } from './types/config.js';
 
 async function main() {
-  const { command, cacheBuild, cacheFile } = parseArgs(process.argv.slice(2));
+  const { command, cacheBuild, cacheFile, configFile, readOnly, timeoutMs, noExecute } = parseArgs(
+    process.argv.slice(2)
+  );
   const logger = createLogger({ prefix: 'any-cli-mcp' });
 
   if (cacheBuild) {
@@ -44,9 +48,15 @@ async function main() {
   }
 
   if (!commandToUse) {
-    logger.error('Usage: npx any-cli-mcp-server <command> [--cache-file <file>]');
+    logger.error('Usage: npx any-cli-mcp-server <command> [--cache-file <file>] [options]');
     logger.error('       npx any-cli-mcp-server --cache-build <command> [--cache-file <file>]');
-    logger.error('       npx any-cli-mcp-server <cache_file.json>');
+    logger.error('       npx any-cli-mcp-server <cache_file.json> [options]');
+    logger.error('');
+    logger.error('Options:');
+    logger.error('  --config <file>   JSON server config (policy, per-tool settings)');
+    logger.error('  --read-only       Only expose tools that do not modify state');
+    logger.error('  --timeout <ms>    Default execution timeout');
+    logger.error('  --no-execute      Do not offer tools that take raw command strings');
     logger.error('');
     logger.error('Examples:');
     logger.error('  npx any-cli-mcp-server <command>');
@@ -56,7 +66,29 @@ async function main() {
     process.exit(1);
   }
 
-  await startMcpServer(commandToUse, cacheFile);
+  let config: ServerConfig = {};
+  if (configFile) {
+    const loaded = loadServerConfig(configFile);
+    if (!loaded) {
+      logger.error(`Error: Could not load config file: ${configFile}`);
+      process.exit(1);
+    }
+    config = loaded;
+  }
+
+  if (readOnly) {
+    config = { ...config, readOnly: true };
+  }
+
+  if (timeoutMs) {
+    config = { ...config, timeoutMs };
+  }
+
+  if (noExecute) {
+    config = { ...config, execute: { ...config.execute, enabled: false } };
+  }
+
+  await startMcpServer(commandToUse, cacheFile, config);
 }
 
 main().catch(console.error);
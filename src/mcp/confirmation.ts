@@ -0,0 +1,52 @@
+/**
+ * Human-in-the-loop confirmation of destructive tool calls through MCP elicitation
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestId } from '@modelcontextprotocol/sdk/types.js';
+import { quote } from 'shell-quote';
+import { PolicyViolationError } from '../utils/policy.js';
+
+export type ConfirmationServer = Pick<Server, 'getClientCapabilities' | 'elicitInput'>;
+
+/**
+ * Ask the client to confirm the exact command line. Throws when the client cannot elicit input
+ * or the user does not accept.
+ */
+export async function confirmExecution(
+  server: ConfirmationServer,
+  toolName: string,
+  baseCommand: string,
+  argv: string[],
+  relatedRequestId?: RequestId
+): Promise<void> {
+  if (!server.getClientCapabilities()?.elicitation) {
+    throw new PolicyViolationError(
+      `Tool '${toolName}' is marked as destructive and needs user confirmation, ` +
+        'but the client does not support elicitation'
+    );
+  }
+
+  const commandLine = quote([baseCommand, ...argv]);
+  const result = await server.elicitInput(
+    {
+      message: `The destructive tool '${toolName}' wants to run:\n\n${commandLine}\n\nAllow it?`,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          confirm: {
+            type: 'boolean',
+            title: 'Run command',
+            description: commandLine,
+          },
+        },
+        required: ['confirm'],
+      },
+    },
+    { relatedRequestId }
+  );
+
+  if (result.action !== 'accept' || result.content?.confirm !== true) {
+    throw new PolicyViolationError(`Execution of '${toolName}' was not confirmed by the user`);
+  }
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * Output schema shared by every tool that runs the wrapped command
+ */
+export const commandOutputShape = {
+  stdout: z
+    .string()
+    .optional()
+    .describe('Standard output, possibly truncated; omitted when parsed into json'),
+  json: z.unknown().optional().describe('Standard output parsed as JSON, when it is JSON'),
+  jsonError: z
+    .string()
+    .optional()
+    .describe('Why JSON-looking stdout was returned as text, e.g. because it was truncated'),
+  stderr: z.string().describe('Standard error, possibly truncated'),
+  exitCode: z
+    .number()
+    .int()
+    .describe(
+      'Process exit code: -1 when it could not run or timed out, 128 + the signal number when killed'
+    ),
+  durationMs: z.number().describe('Wall-clock execution time in milliseconds'),
+  argv: z.array(z.string()).describe('The executed command line, base command first'),
+  timedOut: z.boolean().optional().describe('Set when the command was killed after timing out'),
+  cancelled: z.boolean().optional().describe('Set when the call was cancelled by the client'),
+  outputId: z.string().optional().describe('Id for get_output when output was truncated'),
+};
@@ -0,0 +1,56 @@
+/**
+ * Streams command output to the client while a tool call is running
+ */
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ProcessOptions } from '../utils/processUtils.js';
+import { createStreamRedactor, Redactor } from '../utils/redaction.js';
+
+export type ProgressExtra = Pick<
+  RequestHandlerExtra<ServerRequest, ServerNotification>,
+  '_meta' | 'sendNotification'
+>;
+
+export type OutputListener = ProcessOptions['onOutput'];
+
+/**
+ * Create an output listener that sends `notifications/progress` (bytes received so far) and
+ * log messages with each chunk. Log messages carry whole lines so secrets split across chunks
+ * are still redacted. Returns undefined when the request has no progress token.
+ */
+export function createProgressReporter(
+  extra: ProgressExtra,
+  toolName: string,
+  redact: Redactor = text => text
+): OutputListener {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+
+  let bytesReceived = 0;
+  const streams = { stdout: createStreamRedactor(redact), stderr: createStreamRedactor(redact) };
+
+  return (stream, chunk) => {
+    bytesReceived += Buffer.byteLength(chunk);
+    const text = streams[stream](chunk);
+    const lastLine = text ? text.trimEnd().split('\n').pop() : undefined;
+
+    const notifications: ServerNotification[] = [
+      {
+        method: 'notifications/progress',
+        params: { progressToken, progress: bytesReceived, message: lastLine },
+      },
+    ];
+    if (text) {
+      notifications.push({
+        method: 'notifications/message',
+        params: { level: stream === 'stderr' ? 'warning' : 'info', logger: toolName, data: text },
+      });
+    }
+
+    for (const notification of notifications) {
+      // The client may have gone away; the command result is what matters
+      extra.sendNotification(notification).catch(() => {});
+    }
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Working directory sandbox: commands may only run inside the allowed root directories
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestId } from '@modelcontextprotocol/sdk/types.js';
+import { realpathSync } from 'fs';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { fileURLToPath } from 'url';
+import { ServerConfig } from '../types/config.js';
+import { PolicyViolationError } from '../utils/policy.js';
+
+export type RootsServer = Pick<Server, 'getClientCapabilities' | 'listRoots'>;
+
+/**
+ * Directories commands may run in: the configured `allowedRoots`, otherwise the roots the client
+ * shares, otherwise the server's own working directory
+ */
+export async function getAllowedRoots(
+  server: RootsServer,
+  config: ServerConfig,
+  relatedRequestId?: RequestId
+): Promise<string[]> {
+  if (config.allowedRoots) {
+    return config.allowedRoots;
+  }
+
+  if (server.getClientCapabilities()?.roots) {
+    const { roots } = await server.listRoots(undefined, { relatedRequestId });
+    return roots
+      .filter(root => root.uri.startsWith('file://'))
+      .map(root => fileURLToPath(root.uri));
+  }
+
+  return [process.cwd()];
+}
+
+/**
+ * Resolve a requested working directory, following symlinks, and make sure it lies inside one of
+ * the allowed roots. Relative paths are resolved against the first root.
+ */
+export function resolveWorkingDirectory(cwd: string, roots: string[]): string {
+  const base = roots[0] ?? process.cwd();
+  let directory: string;
+
+  try {
+    directory = realpathSync(resolve(base, cwd));
+  } catch {
+    throw new PolicyViolationError(`Working directory '${cwd}' does not exist`);
+  }
+
+  const inside = roots.some(root => {
+    const realRoot = toRealPath(root);
+    return realRoot !== null && isWithin(directory, realRoot);
+  });
+
+  if (!inside) {
+    throw new PolicyViolationError(
+      `Working directory '${cwd}' is outside the allowed roots: ${roots.join(', ') || '(none)'}`
+    );
+  }
+
+  return directory;
+}
+
+function isWithin(directory: string, root: string): boolean {
+  const path = relative(root, directory);
+  return path !== '..' && !path.startsWith(`..${sep}`) && !isAbsolute(path);
+}
+
+function toRealPath(path: string): string | null {
+  try {
+    return realpathSync(path);
+  } catch {
+    return null;
+  }
+}
@@ -3,15 +3,60 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { z } from 'zod';
 import { discoverAllCommands } from '../utils/helpParser.js';
 import { convertCommandToTools, createZodSchema } from '../utils/toolConverter.js';
-import { executeCommand } from '../utils/commandExecutor.js';
-import { formatCommandResponse, formatErrorResponse } from '../utils/responseFormatter.js';
+import { buildCommandArgs, executeCommand } from '../utils/commandExecutor.js';
+import {
+  formatCommandResponse,
+  formatErrorResponse,
+  formatJobOutputResponse,
+  formatJobStatusResponse,
+  formatOutputPageResponse,
+} from '../utils/responseFormatter.js';
+import { DEFAULT_MAX_JOBS, JobManager } from '../utils/jobManager.js';
+import { AuditContext, AuditLog } from '../utils/auditLog.js';
 import { loadCommandCache } from '../utils/cache.js';
 import { createLogger } from '../utils/logger.js';
-import { parse as parseShellCommand } from 'shell-quote';
+import {
+  assertToolPermitted,
+  findUnknownSubcommand,
+  isToolPermitted,
+  PolicyViolationError,
+  requiresConfirmation,
+  resolveToolConfig,
+  resolveToolName,
+} from '../utils/policy.js';
+import { assertArgumentsPermitted } from '../utils/argumentPolicy.js';
+import { parseCommandLine } from '../utils/commandLine.js';
+import { getToolAnnotations } from '../utils/toolAnnotations.js';
+import {
+  DEFAULT_MAX_OUTPUT_BYTES,
+  DEFAULT_MAX_OUTPUT_LINES,
+  limitCommandOutput,
+  OutputStore,
+} from '../utils/outputLimiter.js';
+import { confirmExecution } from './confirmation.js';
+import { commandOutputShape } from './outputSchema.js';
+import { createProgressReporter } from './progress.js';
+import { getAllowedRoots, resolveWorkingDirectory } from './roots.js';
+import { buildCommandEnv, getSecretEnv } from '../utils/environment.js';
+import {
+  composeRedactors,
+  createPatternRedactor,
+  createValueRedactor,
+  getSecretDetectors,
+  redactCommandResult,
+} from '../utils/redaction.js';
+import { createControlParamsShape, resolveTimeout, splitControlParams } from './toolParams.js';
+import { ServerConfig } from '../types/config.js';
+import { CliCommand } from '../types/cli.js';
+import type { RequestId } from '@modelcontextprotocol/sdk/types.js';
 
-export async function startMcpServer(baseCommand: string, cacheFile?: string | null) {
+export async function startMcpServer(
+  baseCommand: string,
+  cacheFile?: string | null,
+  config: ServerConfig = {}
+) {
   const logger = createLogger({ prefix: 'mcp-server' });
-  let rootCommand;
+  let rootCommand: CliCommand;
 
   if (cacheFile) {
     logger.info(`Loading cached commands from ${cacheFile}...`);
@@ -29,14 +74,84 @@ export async function startMcpServer(baseCommand: string, cacheFile?: string | n
     rootCommand = await discoverAllCommands(baseCommand, 1);
   }
 
-  const tools = convertCommandToTools(rootCommand, baseCommand);
+  const discoveredTools = convertCommandToTools(rootCommand, baseCommand);
+  const tools = discoveredTools.filter(tool =>
+    isToolPermitted(config, tool.name, tool.description)
+  );
+
+  logger.info(`Found ${discoveredTools.length} tools for ${baseCommand}`);
+  if (tools.length < discoveredTools.length) {
+    const reason = config.readOnly ? 'Policy and read-only mode' : 'Policy';
+    logger.info(`${reason} excluded ${discoveredTools.length - tools.length} tools`);
+  }
+
+  const server = new McpServer(
+    {
+      name: `${baseCommand}-cli-wrapper`,
+      version: '1.0.0',
+    },
+    { capabilities: { logging: {} } }
+  );
+
+  const outputStore = new OutputStore();
+  const outputLimits = {
+    maxBytes: config.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES,
+    maxLines: config.maxOutputLines ?? DEFAULT_MAX_OUTPUT_LINES,
+  };
+
+  const redactPatterns = createPatternRedactor(getSecretDetectors(config));
+  const auditLog = config.audit ? new AuditLog(config.audit) : null;
+  const executeConfig = config.execute ?? {};
+  const executeName = executeConfig.name ?? 'execute';
+  const toolDescriptions = new Map(discoveredTools.map(tool => [tool.name, tool.description]));
+  const toolArgumentMaps = new Map(discoveredTools.map(tool => [tool.name, tool.argumentMap]));
+
+  /**
+   * Parse a raw command string and apply the guardrails of the tool it resolves to
+   */
+  async function prepareRawCommand(command: string, requestId: RequestId) {
+    const cmdArgs = parseCommandLine(command);
+    const unknownSubcommand =
+      executeConfig.knownCommandsOnly && findUnknownSubcommand(rootCommand, cmdArgs);
+    if (unknownSubcommand) {
+      throw new PolicyViolationError(
+        `'${unknownSubcommand}' is not a known ${baseCommand} subcommand; only discovered ` +
+          'commands may be run'
+      );
+    }
+
+    const toolName = resolveToolName(rootCommand, baseCommand, cmdArgs);
+    const description = toolDescriptions.get(toolName);
+    assertToolPermitted(config, toolName, description);
+    assertArgumentsPermitted(config, toolName, cmdArgs, toolArgumentMaps.get(toolName));
+
+    if (requiresConfirmation(config, toolName, description)) {
+      await confirmExecution(server.server, toolName, baseCommand, cmdArgs, requestId);
+    }
+
+    return { toolName, cmdArgs };
+  }
+
+  /**
+   * Environment for a tool and the redactor for the secrets it carries
+   */
+  function prepareEnv(toolName: string) {
+    const env = buildCommandEnv(config, toolName);
+    const redact = composeRedactors(createValueRedactor(getSecretEnv(config, env)), redactPatterns);
+    return { env, locale: config.locale, redact };
+  }
 
-  logger.info(`Found ${tools.length} tools for ${baseCommand}`);
+  function auditContext(tool: string, params: Record<string, unknown>): AuditContext | undefined {
+    return auditLog ? { log: auditLog, tool, params } : undefined;
+  }
 
-  const server = new McpServer({
-    name: `${baseCommand}-cli-wrapper`,
-    version: '1.0.0',
-  });
+  /**
+   * Check a requested working directory against the allowed roots
+   */
+  async function resolveCwd(cwd: string | undefined, requestId: RequestId) {
+    if (cwd === undefined) return undefined;
+    return resolveWorkingDirectory(cwd, await getAllowedRoots(server.server, config, requestId));
+  }
 
   const registeredTools = new Set<string>();
   for (const tool of tools) {
@@ -47,20 +162,61 @@ export async function startMcpServer(baseCommand: string, cacheFile?: string | n
 
     registeredTools.add(tool.name);
     const zodSchema = createZodSchema(tool.inputSchema);
+    const controlShape = createControlParamsShape(config, {
+      reserved: Object.keys(zodSchema.shape),
+      jsonOutput: !!tool.jsonOutputArgs,
+      stdin: !!resolveToolConfig(config, tool.name).stdin,
+    });
+    const controlNames = Object.keys(controlShape);
 
     server.registerTool(
       tool.name,
       {
         title: tool.name,
         description: tool.description,
-        inputSchema: zodSchema.shape,
+        inputSchema: { ...zodSchema.shape, ...controlShape },
+        outputSchema: commandOutputShape,
+        annotations: getToolAnnotations(config, tool.name, tool.description),
       },
-      async (params: Record<string, unknown>) => {
+      async (params: Record<string, unknown>, extra) => {
         logger.debug(`Executing tool: ${tool.name} with params:`, params);
 
         try {
-          const result = await executeCommand(baseCommand, tool.name, params);
-          return formatCommandResponse(result);
+          const { commandParams, controlParams } = splitControlParams(params, controlNames);
+          const cwd = await resolveCwd(controlParams.cwd, extra.requestId);
+
+          const appendArgs =
+            controlParams.outputFormat === 'json' ? (tool.jsonOutputArgs ?? []) : [];
+
+          const argv = buildCommandArgs(
+            baseCommand,
+            tool.name,
+            commandParams,
+            tool.argumentMap,
+            appendArgs
+          );
+          assertArgumentsPermitted(config, tool.name, argv, tool.argumentMap);
+
+          if (requiresConfirmation(config, tool.name, tool.description)) {
+            await confirmExecution(server.server, tool.name, baseCommand, argv, extra.requestId);
+          }
+
+          const { redact, ...env } = prepareEnv(tool.name);
+          const result = await executeCommand(baseCommand, tool.name, commandParams, {
+            timeout: resolveTimeout(config, tool.name, controlParams.timeoutMs),
+            appendArgs,
+            argumentMap: tool.argumentMap,
+            onOutput: createProgressReporter(extra, tool.name, redact),
+            signal: extra.signal,
+            input: controlParams.stdin,
+            cwd,
+            ...env,
+            audit: auditContext(tool.name, params),
+          });
+          return formatCommandResponse(
+            limitCommandOutput(redactCommandResult(result, redact), outputLimits, outputStore),
+            resolveToolConfig(config, tool.name).successExitCodes
+          );
         } catch (error) {
           return formatErrorResponse(error);
         }
@@ -69,26 +225,206 @@ export async function startMcpServer(baseCommand: string, cacheFile?: string | n
   }
 
   server.registerTool(
-    'execute',
+    'get_output',
     {
-      title: 'Execute Command',
-      description: `Execute arbitrary ${baseCommand} commands`,
+      title: 'Get Output',
+      description: 'Read the full output of a previous command whose result was truncated',
       inputSchema: {
-        command: z.string().describe('The full command to execute (without the base command)'),
+        id: z.string().describe('The output id named in the truncation marker'),
+        stream: z.enum(['stdout', 'stderr']).default('stdout').describe('Which stream to read'),
+        offset: z.number().int().min(0).default(0).describe('Byte offset to start reading from'),
+        length: z
+          .number()
+          .int()
+          .positive()
+          .max(outputLimits.maxBytes)
+          .optional()
+          .describe('Number of bytes to read'),
       },
+      annotations: { readOnlyHint: true, idempotentHint: true },
     },
-    async ({ command }: { command: string }) => {
-      try {
-        const parsed = parseShellCommand(command);
-        const cmdArgs = parsed.filter((arg): arg is string => typeof arg === 'string');
-        const result = await executeCommand(baseCommand, '', { _raw: cmdArgs });
-        return formatCommandResponse(result);
-      } catch (error) {
-        return formatErrorResponse(error);
+    async ({ id, stream, offset, length }) => {
+      const page = outputStore.read(id, stream, offset, length ?? outputLimits.maxBytes);
+      if (!page) {
+        return formatErrorResponse(new Error(`No stored output with id '${id}'`));
       }
+      return formatOutputPageResponse(page);
     }
   );
 
+  if (executeConfig.enabled !== false) {
+    server.registerTool(
+      executeName,
+      {
+        title: 'Execute Command',
+        description: executeConfig.knownCommandsOnly
+          ? `Execute ${baseCommand} commands from the discovered subcommands`
+          : `Execute arbitrary ${baseCommand} commands`,
+        inputSchema: {
+          command: z.string().describe('The full command to execute (without the base command)'),
+          ...createControlParamsShape(config, {
+            reserved: ['command'],
+            stdin: Object.values(config.tools ?? {}).some(toolConfig => toolConfig.stdin),
+          }),
+        },
+        outputSchema: commandOutputShape,
+        annotations: {
+          readOnlyHint: !!config.readOnly,
+          destructiveHint: !config.readOnly,
+        },
+      },
+      async (
+        {
+          command,
+          timeoutMs,
+          stdin,
+          cwd,
+        }: { command: string; timeoutMs?: number; stdin?: string; cwd?: string },
+        extra
+      ) => {
+        try {
+          const workingDirectory = await resolveCwd(cwd, extra.requestId);
+          const { toolName, cmdArgs } = await prepareRawCommand(command, extra.requestId);
+          if (stdin !== undefined && !resolveToolConfig(config, toolName).stdin) {
+            throw new PolicyViolationError(`Tool '${toolName}' does not accept stdin`);
+          }
+
+          const { redact, ...env } = prepareEnv(toolName);
+          const result = await executeCommand(
+            baseCommand,
+            '',
+            { _raw: cmdArgs },
+            {
+              timeout: resolveTimeout(config, toolName, timeoutMs),
+              onOutput: createProgressReporter(extra, toolName, redact),
+              signal: extra.signal,
+              input: stdin,
+              cwd: workingDirectory,
+              ...env,
+              audit: auditContext(executeName, { command, timeoutMs, stdin, cwd }),
+            }
+          );
+          return formatCommandResponse(
+            limitCommandOutput(redactCommandResult(result, redact), outputLimits, outputStore),
+            resolveToolConfig(config, toolName).successExitCodes
+          );
+        } catch (error) {
+          return formatErrorResponse(error);
+        }
+      }
+    );
+
+    const jobManager = new JobManager(config.maxJobs ?? DEFAULT_MAX_JOBS);
+    const jobIdSchema = z.string().describe('The job id returned by job_start');
+
+    server.registerTool(
+      'job_start',
+      {
+        title: 'Start Background Job',
+        description:
+          `Start a long-running ${baseCommand} command (servers, watchers, log follows) in the ` +
+          'background and return a job id',
+        inputSchema: {
+          command: z.string().describe('The full command to run (without the base command)'),
+          cwd: z
+            .string()
+            .optional()
+            .describe('Directory to run the command in; must be inside an allowed root'),
+        },
+        annotations: {
+          readOnlyHint: !!config.readOnly,
+          destructiveHint: !config.readOnly,
+        },
+      },
+      async ({ command, cwd }, extra) => {
+        try {
+          const workingDirectory = await resolveCwd(cwd, extra.requestId);
+          const { toolName, cmdArgs } = await prepareRawCommand(command, extra.requestId);
+          const { redact, ...env } = prepareEnv(toolName);
+          const audit = auditContext('job_start', { command, cwd });
+          const auditCwd = workingDirectory ?? process.cwd();
+          const argv = [baseCommand, ...cmdArgs];
+          const auditId = audit?.log.start(audit, argv, auditCwd);
+
+          try {
+            return formatJobStatusResponse(
+              jobManager.start(baseCommand, cmdArgs, {
+                cwd: workingDirectory,
+                ...env,
+                redact,
+                onExit: result => audit?.log.record(audit, result, auditCwd, auditId),
+              })
+            );
+          } catch (error) {
+            // Close the start entry of a job that was refused
+            const stderr = error instanceof Error ? error.message : String(error);
+            audit?.log.record(audit, { stdout: '', stderr, exitCode: -1, argv }, auditCwd, auditId);
+            throw error;
+          }
+        } catch (error) {
+          return formatErrorResponse(error);
+        }
+      }
+    );
+
+    server.registerTool(
+      'job_status',
+      {
+        title: 'Background Job Status',
+        description: 'Report whether a background job is running, its exit code and output sizes',
+        inputSchema: { id: jobIdSchema },
+        annotations: { readOnlyHint: true, idempotentHint: true },
+      },
+      async ({ id }) => {
+        const status = jobManager.status(id);
+        return status
+          ? formatJobStatusResponse(status)
+          : formatErrorResponse(new Error(`No job with id '${id}'`));
+      }
+    );
+
+    server.registerTool(
+      'job_output',
+      {
+        title: 'Background Job Output',
+        description:
+          'Read output produced by a background job since the given offsets. Pass the offsets ' +
+          'from the previous call to only get new output.',
+        inputSchema: {
+          id: jobIdSchema,
+          stdoutOffset: z.number().int().min(0).default(0).describe('Byte offset into stdout'),
+          stderrOffset: z.number().int().min(0).default(0).describe('Byte offset into stderr'),
+        },
+        annotations: { readOnlyHint: true },
+      },
+      async ({ id, stdoutOffset, stderrOffset }) => {
+        const output = jobManager.output(id, stdoutOffset, stderrOffset, outputLimits.maxBytes);
+        return output
+          ? formatJobOutputResponse(output)
+          : formatErrorResponse(new Error(`No job with id '${id}'`));
+      }
+    );
+
+    server.registerTool(
+      'job_stop',
+      {
+        title: 'Stop Background Job',
+        description: 'Terminate a background job and everything it started',
+        inputSchema: { id: jobIdSchema },
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      },
+      async ({ id }) => {
+        const status = await jobManager.stop(id);
+        return status
+          ? formatJobStatusResponse(status)
+          : formatErrorResponse(new Error(`No job with id '${id}'`));
+      }
+    );
+
+    server.server.onclose = () => jobManager.stopAll();
+    process.on('exit', () => jobManager.stopAll());
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
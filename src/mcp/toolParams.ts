@@ -0,0 +1,102 @@
+/**
+ * Server-level parameters added to every tool alongside the CLI's own options
+ */
+
+import { z } from 'zod';
+import { ServerConfig } from '../types/config.js';
+import { resolveToolConfig } from '../utils/policy.js';
+import { DEFAULT_TIMEOUT_MS } from '../utils/processUtils.js';
+
+export const DEFAULT_MAX_TIMEOUT_MS = 600000;
+
+export interface ControlParams {
+  timeoutMs?: number;
+  outputFormat?: 'text' | 'json';
+  stdin?: string;
+  cwd?: string;
+}
+
+export interface ControlParamsOptions {
+  /** Parameter names the CLI itself already uses */
+  reserved?: string[];
+  /** Offer the `outputFormat` toggle for commands with a JSON output option */
+  jsonOutput?: boolean;
+  /** Offer the `stdin` parameter, piped to the command */
+  stdin?: boolean;
+}
+
+/**
+ * Build the schema for control parameters, skipping names the CLI itself already uses
+ */
+export function createControlParamsShape(
+  config: ServerConfig,
+  { reserved = [], jsonOutput = false, stdin = false }: ControlParamsOptions = {}
+): Record<string, z.ZodTypeAny> {
+  const shape: Record<string, z.ZodTypeAny> = {
+    timeoutMs: z
+      .number()
+      .int()
+      .positive()
+      .max(getMaxTimeout(config))
+      .optional()
+      .describe('Execution timeout in milliseconds'),
+    cwd: z
+      .string()
+      .optional()
+      .describe('Directory to run the command in; must be inside an allowed root'),
+  };
+
+  if (jsonOutput) {
+    shape.outputFormat = z
+      .enum(['text', 'json'])
+      .optional()
+      .describe('Set to json to have the command print JSON, returned as structured content');
+  }
+
+  if (stdin) {
+    shape.stdin = z.string().optional().describe('Text piped to the command as standard input');
+  }
+
+  for (const name of reserved) {
+    delete shape[name];
+  }
+
+  return shape;
+}
+
+/**
+ * Separate control parameters from the parameters that become command arguments
+ */
+export function splitControlParams(
+  params: Record<string, unknown>,
+  controlNames: string[]
+): { commandParams: Record<string, unknown>; controlParams: ControlParams } {
+  const commandParams: Record<string, unknown> = {};
+  const controlParams: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (controlNames.includes(key)) {
+      controlParams[key] = value;
+    } else {
+      commandParams[key] = value;
+    }
+  }
+
+  return { commandParams, controlParams: controlParams as ControlParams };
+}
+
+export function getMaxTimeout(config: ServerConfig): number {
+  return config.maxTimeoutMs ?? Math.max(DEFAULT_MAX_TIMEOUT_MS, config.timeoutMs ?? 0);
+}
+
+/**
+ * Pick the timeout for a call: the requested value (bounded by the server maximum), then the
+ * per-tool setting, then the global default
+ */
+export function resolveTimeout(config: ServerConfig, toolName: string, requested?: number): number {
+  if (requested !== undefined) {
+    return Math.min(requested, getMaxTimeout(config));
+  }
+
+  return resolveToolConfig(config, toolName).timeoutMs ?? config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+}
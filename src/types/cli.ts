@@ -12,22 +12,68 @@ export interface CliOption {
   description: string;
   valueRequired: boolean;
   valueName?: string;
+  /** Type of the value; defaults to string */
+  valueType?: 'string' | 'number';
+  /** The only values the option accepts */
+  choices?: string[];
+  /** Whether the option may be given more than once, each time with one value */
+  repeatable?: boolean;
+  /** Value the command uses when the option is not given */
+  defaultValue?: OptionValue;
+  /** Argument that turns a switch off (`--no-foo`, `--foo=false`) */
+  negation?: string;
+  /** Short alias of the negation (`-n` for `-n, --no-verify`) */
+  negationShortName?: string;
+  /** How the value is joined to the flag; a separate argument when unset */
+  syntax?: OptionSyntax;
+  /** How the value is joined to `shortName`; an optional value must be attached (`-S<key>`) */
+  shortSyntax?: OptionSyntax;
 }
 
+/** `--flag=value` or `-Dvalue` */
+export type OptionSyntax = 'equals' | 'attached';
+
+export type OptionValue = string | number | boolean | Array<string | number>;
+
 export interface CliArgument {
   name: string;
   description: string;
   required: boolean;
+  /** Whether the argument takes any number of values (`<files>...`) */
+  variadic?: boolean;
 }
 
 export interface CommandResult {
   stdout: string;
   stderr: string;
   exitCode: number;
+  /** The executed command line, base command first */
+  argv?: string[];
+  durationMs?: number;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  /** Set when output was truncated; the full output can be paged through by this id */
+  outputId?: string;
 }
 
+/** How a tool parameter is passed on the command line */
+export type ArgumentMapping =
+  | {
+      type: 'option';
+      flag: string;
+      valueRequired: boolean;
+      defaultValue?: OptionValue;
+      negation?: string;
+      syntax?: OptionSyntax;
+    }
+  | { type: 'positional'; index: number };
+
 export interface McpTool {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
+  /** Arguments that switch the command to JSON output, when it supports it */
+  jsonOutputArgs?: string[];
+  /** Parameter name to flag or positional slot, as parsed from help text */
+  argumentMap?: Record<string, ArgumentMapping>;
 }
@@ -0,0 +1,98 @@
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+export type CommandAccess = 'read' | 'write';
+
+export interface ToolConfig {
+  /** Overrides the verb heuristic used by read-only mode */
+  access?: CommandAccess;
+  /** Overrides the verb heuristic that decides whether a call needs confirmation */
+  destructive?: boolean;
+  /** Overrides individual MCP tool annotations inferred from the tool path and help text */
+  annotations?: Partial<ToolAnnotations>;
+  /** Default execution timeout for this tool in milliseconds */
+  timeoutMs?: number;
+  /** Exit codes that count as success, e.g. `[0, 1]` for grep or diff (default: `[0]`) */
+  successExitCodes?: number[];
+  /** Offer a `stdin` parameter whose text is piped to the command, e.g. for `apply -f -` */
+  stdin?: boolean;
+  /** Variables set for this tool, e.g. `KUBECONFIG` or `AWS_PROFILE` */
+  env?: Record<string, string>;
+  /** Flags calls may not pass, e.g. `--force`; single letters also match inside `-rf` */
+  forbidFlags?: string[];
+  /** Flags every call must pass, e.g. `--dry-run` */
+  requireFlags?: string[];
+  /** Patterns (globs or `/regex/`) no argument value may match, e.g. `/^\/+$/` */
+  forbidValues?: string[];
+}
+
+export interface AuditConfig {
+  /** JSONL file every executed command is appended to */
+  file: string;
+  /** Record SHA-256 hashes of stdout and stderr */
+  hashOutput?: boolean;
+  /** Size at which the log is rotated to `<file>.1` (default: 10 MB) */
+  maxBytes?: number;
+  /** Rotated files kept (default: 5) */
+  maxFiles?: number;
+}
+
+export interface ExecuteConfig {
+  /** Register the `execute` and background job tools, which take raw commands (default: true) */
+  enabled?: boolean;
+  /** Name of the `execute` tool */
+  name?: string;
+  /** Reject raw commands whose subcommands were not discovered */
+  knownCommandsOnly?: boolean;
+}
+
+export interface ServerConfig {
+  /**
+   * Ordered include/exclude rules matched against tool paths, e.g. `repo-*` or `!*-delete`.
+   * Rules are globs unless wrapped in slashes (`/^repo-(list|view)$/`). The last matching
+   * rule wins; when any include rule is present, tools matching no rule are excluded.
+   */
+  policy?: string[];
+  /** Only expose and execute tools classified as read */
+  readOnly?: boolean;
+  /** Ask the client to confirm destructive tool calls through elicitation (default: true) */
+  confirmDestructive?: boolean;
+  /** Default execution timeout in milliseconds */
+  timeoutMs?: number;
+  /** Upper bound for the `timeoutMs` parameter callers may pass to a tool */
+  maxTimeoutMs?: number;
+  /** Maximum bytes of stdout or stderr returned per call before head+tail truncation */
+  maxOutputBytes?: number;
+  /** Maximum lines of stdout or stderr returned per call before head+tail truncation */
+  maxOutputLines?: number;
+  /**
+   * Directories the `cwd` parameter may point into (symlinks are resolved). Defaults to the
+   * client's MCP roots, or the server's working directory when the client has none.
+   */
+  allowedRoots?: string[];
+  /**
+   * Names (globs or `/regex/`) of inherited environment variables passed to commands. When
+   * unset the whole environment is passed; `PATH` is always passed.
+   */
+  envAllowlist?: string[];
+  /** Variables set for every command; per-tool `env` takes precedence */
+  env?: Record<string, string>;
+  /** Extra variable name patterns whose values are redacted from output */
+  secretEnv?: string[];
+  /**
+   * Extra patterns redacted from output, keyed by the label used in the placeholder, e.g.
+   * `{ "INTERNAL_URL": "https://internal\\.example\\.com\\S*" }`
+   */
+  redactPatterns?: Record<string, string>;
+  /** Redact AWS keys, GitHub tokens, JWTs, private keys and bearer tokens (default: true) */
+  builtInDetectors?: boolean;
+  /** `LANG` for commands (default: `C`); `null` keeps the inherited locale */
+  locale?: string | null;
+  /** Options for the tools that accept raw command strings */
+  execute?: ExecuteConfig;
+  /** Append-only audit log of executed commands */
+  audit?: AuditConfig;
+  /** Maximum number of background jobs running at once */
+  maxJobs?: number;
+  /** Per-tool settings keyed by tool path pattern; later matching entries take precedence */
+  tools?: Record<string, ToolConfig>;
+}
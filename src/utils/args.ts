@@ -1,10 +1,63 @@
-export interface ParsedArgs {
+export interface ServerArgs {
+  configFile: string | null;
+  readOnly: boolean;
+  timeoutMs: number | null;
+  noExecute: boolean;
+}
+
+export interface ParsedArgs extends ServerArgs {
   command?: string;
   cacheBuild: boolean;
   cacheFile: string | null;
 }
 
 export function parseArgs(args: string[]): ParsedArgs {
+  const { serverArgs, remainingArgs } = extractServerArgs(args);
+  return { ...parseCommandArgs(remainingArgs), ...serverArgs };
+}
+
+/**
+ * Pull server options out of the argument list. Everything after --cache-build belongs to the
+ * command being cached and is left untouched.
+ */
+function extractServerArgs(args: string[]): {
+  serverArgs: ServerArgs;
+  remainingArgs: string[];
+} {
+  const serverArgs: ServerArgs = {
+    configFile: null,
+    readOnly: false,
+    timeoutMs: null,
+    noExecute: false,
+  };
+  const remainingArgs: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--cache-build') {
+      remainingArgs.push(...args.slice(i));
+      break;
+    }
+
+    if (args[i] === '--config') {
+      serverArgs.configFile = args[i + 1] || null;
+      i++;
+    } else if (args[i] === '--timeout') {
+      const timeoutMs = Number(args[i + 1]);
+      serverArgs.timeoutMs = Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : null;
+      i++;
+    } else if (args[i] === '--read-only') {
+      serverArgs.readOnly = true;
+    } else if (args[i] === '--no-execute') {
+      serverArgs.noExecute = true;
+    } else {
+      remainingArgs.push(args[i]);
+    }
+  }
+
+  return { serverArgs, remainingArgs };
+}
+
+function parseCommandArgs(args: string[]): Omit<ParsedArgs, keyof ServerArgs> {
   const cacheBuildIndex = args.indexOf('--cache-build');
   const cacheFileIndex = args.indexOf('--cache-file');
 
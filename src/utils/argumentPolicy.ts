@@ -0,0 +1,145 @@
+/**
+ * Argument policy: rules on the flags and values a tool call may pass
+ */
+
+import { ArgumentMapping } from '../types/cli.js';
+import { ServerConfig } from '../types/config.js';
+import { matchesPattern, PolicyViolationError } from './policy.js';
+
+export interface ArgumentRules {
+  forbidFlags: string[];
+  requireFlags: string[];
+  forbidValues: string[];
+}
+
+/**
+ * Collect the argument rules of every `tools` entry matching the tool. Unlike other per-tool
+ * settings, rules accumulate, so a broad pattern cannot be loosened by a narrower one.
+ */
+export function resolveArgumentRules(config: ServerConfig, toolName: string): ArgumentRules {
+  const rules: ArgumentRules = { forbidFlags: [], requireFlags: [], forbidValues: [] };
+
+  for (const [pattern, toolConfig] of Object.entries(config.tools || {})) {
+    if (!matchesPattern(pattern, toolName)) continue;
+
+    rules.forbidFlags.push(...(toolConfig.forbidFlags || []));
+    rules.requireFlags.push(...(toolConfig.requireFlags || []));
+    rules.forbidValues.push(...(toolConfig.forbidValues || []));
+  }
+
+  return rules;
+}
+
+/**
+ * Check the final argv of a call against the tool's argument rules and describe the first
+ * violation, or return null when the arguments are allowed. The tool's argument map tells
+ * which flags exist and which take a value; unknown flags are treated strictly.
+ */
+export function findArgumentViolation(
+  config: ServerConfig,
+  toolName: string,
+  argv: string[],
+  argumentMap: Record<string, ArgumentMapping> = {}
+): string | null {
+  const { forbidFlags, requireFlags, forbidValues } = resolveArgumentRules(config, toolName);
+  const { flags, values } = splitArguments(argv);
+  const knownFlags = new Map<string, boolean>();
+  for (const mapping of Object.values(argumentMap)) {
+    if (mapping.type === 'option') knownFlags.set(mapping.flag, mapping.valueRequired);
+  }
+
+  for (const flag of forbidFlags) {
+    const used = flags.find(
+      arg => isFlagUsed(flag, arg, knownFlags) || isAbbreviation(flag, arg, knownFlags)
+    );
+    if (used) {
+      return `Tool '${toolName}' does not allow '${used}'`;
+    }
+  }
+
+  for (const flag of requireFlags) {
+    if (!flags.some(arg => isFlagUsed(flag, arg, knownFlags))) {
+      return `Tool '${toolName}' requires '${flag}'`;
+    }
+  }
+
+  for (const pattern of forbidValues) {
+    const value = values.find(arg => matchesPattern(pattern, arg));
+    if (value !== undefined) {
+      return `Tool '${toolName}' does not allow the value '${value}' (matches '${pattern}')`;
+    }
+  }
+
+  return null;
+}
+
+export function assertArgumentsPermitted(
+  config: ServerConfig,
+  toolName: string,
+  argv: string[],
+  argumentMap: Record<string, ArgumentMapping> = {}
+): void {
+  const violation = findArgumentViolation(config, toolName, argv, argumentMap);
+  if (violation) {
+    throw new PolicyViolationError(violation);
+  }
+}
+
+/**
+ * Separate flags from values. `--name=value` contributes to both, and everything after `--`
+ * is a value.
+ */
+function splitArguments(argv: string[]): { flags: string[]; values: string[] } {
+  const flags: string[] = [];
+  const values: string[] = [];
+  const separator = argv.indexOf('--');
+  const options = separator === -1 ? argv : argv.slice(0, separator);
+
+  for (const arg of options) {
+    if (!arg.startsWith('-') || arg === '-') {
+      values.push(arg);
+      continue;
+    }
+
+    flags.push(arg);
+    const equals = arg.indexOf('=');
+    if (equals !== -1) {
+      values.push(arg.slice(equals + 1));
+    }
+  }
+
+  if (separator !== -1) {
+    values.push(...argv.slice(separator + 1));
+  }
+
+  return { flags, values };
+}
+
+/**
+ * Whether an argument uses a flag: exactly, with an `=value`, or for single-letter flags,
+ * inside a group of short flags such as `-rf`. A group ends at a known flag that takes a
+ * value, so `-ofile` does not use `-f`.
+ */
+function isFlagUsed(flag: string, arg: string, knownFlags: Map<string, boolean>): boolean {
+  if (arg === flag || arg.startsWith(`${flag}=`)) return true;
+
+  const shortFlag = flag.match(/^-([A-Za-z0-9])$/);
+  if (!shortFlag || !/^-[A-Za-z0-9]+$/.test(arg)) return false;
+
+  for (const letter of arg.slice(1)) {
+    if (letter === shortFlag[1]) return true;
+    if (knownFlags.get(`-${letter}`)) return false;
+  }
+  return false;
+}
+
+/**
+ * Whether an argument abbreviates a long flag (`--forc` for `--force`), as getopt_long and git
+ * accept. Known flags of the tool are never abbreviations of another.
+ */
+function isAbbreviation(flag: string, arg: string, knownFlags: Map<string, boolean>): boolean {
+  const name = arg.split('=')[0];
+  return (
+    flag.startsWith('--') && /^--[^-]/.test(name) && flag.startsWith(name) && !knownFlags.has(name)
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Append-only JSONL record of every command the server executes
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, renameSync, statSync } from 'fs';
+import { dirname } from 'path';
+import { CommandResult } from '../types/cli.js';
+import { AuditConfig } from '../types/config.js';
+import { createLogger } from './logger.js';
+
+export const DEFAULT_AUDIT_MAX_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_AUDIT_MAX_FILES = 5;
+
+/** Written before a command runs, so commands that never finish are on record */
+export interface AuditStartEntry {
+  timestamp: string;
+  event: 'start';
+  id: string;
+  tool: string;
+  params: Record<string, unknown>;
+  argv: string[];
+  cwd: string;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  event: 'exit';
+  /** Id of the matching start entry */
+  id?: string;
+  tool: string;
+  params: Record<string, unknown>;
+  argv: string[];
+  cwd: string;
+  exitCode: number;
+  durationMs: number;
+  stdoutBytes: number;
+  stderrBytes: number;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  stdoutSha256?: string;
+  stderrSha256?: string;
+}
+
+/** What the caller knows about an execution that the process result does not carry */
+export interface AuditContext {
+  log: AuditLog;
+  tool: string;
+  params: Record<string, unknown>;
+}
+
+export class AuditLog {
+  private config: AuditConfig;
+  private logger = createLogger({ prefix: 'audit' });
+
+  constructor(config: AuditConfig) {
+    this.config = config;
+    mkdirSync(dirname(config.file), { recursive: true });
+  }
+
+  /**
+   * Append an entry for a command about to run and return the id that links it to the entry
+   * written by `record` when it exits
+   */
+  start({ tool, params }: Omit<AuditContext, 'log'>, argv: string[], cwd: string): string {
+    const id = randomUUID();
+    this.append({
+      timestamp: new Date().toISOString(),
+      event: 'start',
+      id,
+      tool,
+      params,
+      argv,
+      cwd,
+    });
+    return id;
+  }
+
+  /**
+   * Append an entry for a finished command
+   */
+  record(
+    context: Omit<AuditContext, 'log'>,
+    result: CommandResult,
+    cwd: string,
+    id?: string
+  ): void {
+    this.append(this.createEntry(context, result, cwd, id));
+  }
+
+  /**
+   * Failures are logged rather than thrown: the command's result should still reach the client
+   */
+  private append(entry: AuditStartEntry | AuditEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+
+    try {
+      this.rotate(Buffer.byteLength(line));
+      appendFileSync(this.config.file, line, { mode: 0o600 });
+    } catch (error) {
+      this.logger.error(`Failed to write audit log ${this.config.file}: ${error}`);
+    }
+  }
+
+  private createEntry(
+    { tool, params }: Omit<AuditContext, 'log'>,
+    result: CommandResult,
+    cwd: string,
+    id?: string
+  ): AuditEntry {
+    return {
+      timestamp: new Date().toISOString(),
+      event: 'exit',
+      ...(id && { id }),
+      tool,
+      params,
+      argv: result.argv ?? [],
+      cwd,
+      exitCode: result.exitCode,
+      durationMs: result.durationMs ?? 0,
+      stdoutBytes: Buffer.byteLength(result.stdout),
+      stderrBytes: Buffer.byteLength(result.stderr),
+      ...(result.timedOut && { timedOut: true }),
+      ...(result.cancelled && { cancelled: true }),
+      ...(this.config.hashOutput && {
+        stdoutSha256: sha256(result.stdout),
+        stderrSha256: sha256(result.stderr),
+      }),
+    };
+  }
+
+  /**
+   * Move the log to `<file>.1` (shifting older files up to `maxFiles`) when the next entry
+   * would take it past `maxBytes`
+   */
+  private rotate(incomingBytes: number): void {
+    const {
+      file,
+      maxBytes = DEFAULT_AUDIT_MAX_BYTES,
+      maxFiles = DEFAULT_AUDIT_MAX_FILES,
+    } = this.config;
+
+    if (!existsSync(file) || statSync(file).size + incomingBytes <= maxBytes) {
+      return;
+    }
+
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${file}.${index}`)) {
+        renameSync(`${file}.${index}`, `${file}.${index + 1}`);
+      }
+    }
+
+    renameSync(file, `${file}.1`);
+  }
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
@@ -0,0 +1,182 @@
+/**
+ * Heuristics for classifying subcommands by what they do to the wrapped system
+ */
+
+import { CommandAccess } from '../types/config.js';
+
+const READ_VERBS = new Set([
+  'list',
+  'ls',
+  'get',
+  'show',
+  'status',
+  'view',
+  'describe',
+  'inspect',
+  'info',
+  'search',
+  'find',
+  'query',
+  'log',
+  'logs',
+  'diff',
+  'explain',
+  'history',
+  'top',
+  'version',
+  'help',
+  'whoami',
+  'check',
+  'verify',
+  'validate',
+  'cat',
+  'print',
+  'read',
+  'watch',
+  'tree',
+  'blame',
+]);
+
+const WRITE_VERBS = new Set([
+  'create',
+  'add',
+  'new',
+  'init',
+  'delete',
+  'del',
+  'rm',
+  'remove',
+  'destroy',
+  'prune',
+  'purge',
+  'drop',
+  'apply',
+  'push',
+  'set',
+  'unset',
+  'update',
+  'upgrade',
+  'edit',
+  'patch',
+  'replace',
+  'install',
+  'uninstall',
+  'deploy',
+  'run',
+  'exec',
+  'start',
+  'stop',
+  'restart',
+  'kill',
+  'scale',
+  'merge',
+  'close',
+  'reopen',
+  'commit',
+  'reset',
+  'import',
+  'login',
+  'logout',
+  'rename',
+  'move',
+  'mv',
+  'copy',
+  'cp',
+  'clone',
+  'fork',
+  'archive',
+  'enable',
+  'disable',
+  'sync',
+  'publish',
+  'release',
+  'tag',
+  'label',
+  'annotate',
+  'cordon',
+  'drain',
+  'rollout',
+  'rollback',
+]);
+
+const DESTRUCTIVE_VERBS = new Set([
+  'delete',
+  'del',
+  'rm',
+  'remove',
+  'destroy',
+  'prune',
+  'purge',
+  'drop',
+  'kill',
+  'reset',
+  'uninstall',
+  'drain',
+  'rollback',
+]);
+
+const IDEMPOTENT_WRITE_VERBS = new Set([
+  'delete',
+  'del',
+  'rm',
+  'remove',
+  'destroy',
+  'purge',
+  'apply',
+  'set',
+  'unset',
+  'replace',
+  'enable',
+  'disable',
+  'stop',
+  'uninstall',
+]);
+
+/**
+ * Classify a tool by the last recognised verb in its path (`repo-list` → read), falling back to
+ * its help description: any write verb in it makes a write ("Get and set options"), otherwise
+ * the first word decides ("List pods"). Tools without a recognised verb are treated as writes so
+ * read-only mode fails closed.
+ */
+export function classifyCommandAccess(toolName: string, description?: string): CommandAccess {
+  const verb = findVerb(toolName, description);
+  return verb && READ_VERBS.has(verb) ? 'read' : 'write';
+}
+
+/**
+ * Whether the recognised verb removes or irreversibly changes state
+ */
+export function isDestructiveCommand(toolName: string, description?: string): boolean {
+  const verb = findVerb(toolName, description);
+  return !!verb && DESTRUCTIVE_VERBS.has(verb);
+}
+
+/**
+ * Whether repeating the call with the same arguments has no additional effect
+ */
+export function isIdempotentCommand(toolName: string, description?: string): boolean {
+  const verb = findVerb(toolName, description);
+  return !!verb && (READ_VERBS.has(verb) || IDEMPOTENT_WRITE_VERBS.has(verb));
+}
+
+function findVerb(toolName: string, description?: string): string | undefined {
+  const segments = toolName.toLowerCase().split('-');
+
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (isKnownVerb(segments[i])) {
+      return segments[i];
+    }
+  }
+
+  const words = description?.toLowerCase().match(/[a-z]+/g) ?? [];
+  const writeVerb = words.flatMap(verbForms).find(word => WRITE_VERBS.has(word));
+  return writeVerb ?? verbForms(words[0] ?? '').find(isKnownVerb);
+}
+
+function verbForms(word: string): string[] {
+  return [word, word.replace(/s$/, ''), word.replace(/es$/, '')];
+}
+
+function isKnownVerb(word: string): boolean {
+  return READ_VERBS.has(word) || WRITE_VERBS.has(word);
+}
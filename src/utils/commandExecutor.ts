@@ -1,11 +1,21 @@
-import { toKebabCase } from './parsingHelpers.js';
-import { CommandResult } from '../types/cli.js';
-import { runProcess } from './processUtils.js';
+import { ArgumentMapping, CommandResult, OptionValue } from '../types/cli.js';
+import { ProcessOptions, runProcess } from './processUtils.js';
+import { AuditContext } from './auditLog.js';
+
+export interface ExecuteOptions extends ProcessOptions {
+  /** Arguments added after the options built from the tool parameters */
+  appendArgs?: string[];
+  /** Record the execution in this audit log */
+  audit?: AuditContext;
+  /** How the tool's parameters map to flags and positionals */
+  argumentMap?: Record<string, ArgumentMapping>;
+}
 
 export async function executeCommand(
   baseCommand: string,
   toolName: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  options: ExecuteOptions = {}
 ): Promise<CommandResult> {
   if (!baseCommand || baseCommand.trim() === '') {
     return {
@@ -15,8 +25,30 @@ export async function executeCommand(
     };
   }
 
+  const { appendArgs = [], audit, argumentMap, ...processOptions } = options;
+  const cmdArgs = buildCommandArgs(baseCommand, toolName, args, argumentMap, appendArgs);
+  const cwd = processOptions.cwd ?? process.cwd();
+  const auditId = audit?.log.start(audit, [baseCommand, ...cmdArgs], cwd);
+  const result = await runProcess(baseCommand, cmdArgs, processOptions);
+
+  audit?.log.record(audit, result, cwd, auditId);
+  return result;
+}
+
+/**
+ * Build the argv passed to the base command for a tool invocation: the subcommand path, then
+ * options and `appendArgs`, then positionals in order. Parameters missing from the argument map
+ * are rejected rather than guessed at.
+ */
+export function buildCommandArgs(
+  baseCommand: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  argumentMap: Record<string, ArgumentMapping> = {},
+  appendArgs: string[] = []
+): string[] {
   if (args._raw && Array.isArray(args._raw)) {
-    return runProcess(baseCommand, args._raw);
+    return [...args._raw, ...appendArgs];
   }
 
   const commandParts = toolName.split('-');
@@ -26,46 +58,72 @@ export async function executeCommand(
     cmdArgs.push(...commandParts);
   }
 
+  const positionals: Array<{ index: number; values: string[] }> = [];
+
   for (const [key, value] of Object.entries(args)) {
     if (value === undefined || value === null) continue;
 
-    const flagName = toKebabCase(key);
+    const mapping = argumentMap[key];
+    if (mapping?.type === 'positional') {
+      const values = Array.isArray(value) ? value.map(String) : [String(value)];
+      positionals.push({ index: mapping.index, values });
+      continue;
+    }
 
-    if (typeof value === 'boolean') {
-      addBooleanFlag(cmdArgs, key, flagName, value);
-    } else {
-      addValuedOption(cmdArgs, key, flagName, String(value));
+    if (!mapping) {
+      throw new Error(`Unknown parameter '${key}' for ${toolName || baseCommand}`);
     }
+
+    if (!isDefaultValue(value, mapping.defaultValue)) {
+      addMappedOption(cmdArgs, mapping, value);
+    }
+  }
+
+  cmdArgs.push(...appendArgs);
+
+  const orderedPositionals = positionals.sort((a, b) => a.index - b.index).flatMap(p => p.values);
+  // Keep values such as `-1` from being read as flags
+  if (orderedPositionals.some(value => value.startsWith('-'))) {
+    cmdArgs.push('--');
   }
+  cmdArgs.push(...orderedPositionals);
 
-  return runProcess(baseCommand, cmdArgs);
+  return cmdArgs;
 }
 
-function addBooleanFlag(cmdArgs: string[], key: string, flagName: string, value: boolean): void {
-  if (value) {
-    if (key.length === 1) {
-      cmdArgs.push(`-${key}`);
+function addMappedOption(
+  cmdArgs: string[],
+  { flag, valueRequired, negation, syntax }: Extract<ArgumentMapping, { type: 'option' }>,
+  value: unknown
+): void {
+  if (!valueRequired) {
+    if (value === true) cmdArgs.push(flag);
+    if (value === false && negation) cmdArgs.push(negation);
+    return;
+  }
+
+  // Repeatable options take one value per occurrence: `-e A=1 -e B=2`
+  for (const item of Array.isArray(value) ? value : [value]) {
+    if (syntax === 'equals') {
+      cmdArgs.push(`${flag}=${item}`);
+    } else if (syntax === 'attached') {
+      cmdArgs.push(`${flag}${item}`);
     } else {
-      cmdArgs.push(`--${flagName}`);
+      cmdArgs.push(flag, String(item));
     }
   }
 }
 
-function addValuedOption(cmdArgs: string[], key: string, flagName: string, value: string): void {
-  if (key.length === 1) {
-    cmdArgs.push(`-${key}`, value);
-  } else if (isPositionalArg(key)) {
-    cmdArgs.push(value);
-  } else {
-    cmdArgs.push(`--${flagName}`, value);
+/**
+ * Whether a value is the option's default, in which case the flag can be left out
+ */
+function isDefaultValue(value: unknown, defaultValue: OptionValue | undefined): boolean {
+  if (defaultValue === undefined) return false;
+  if (Array.isArray(value) && Array.isArray(defaultValue)) {
+    return (
+      value.length === defaultValue.length &&
+      value.every((item, index) => String(item) === String(defaultValue[index]))
+    );
   }
-}
-
-function isPositionalArg(key: string): boolean {
-  return (
-    !key.match(/^(is|has|with|no|enable|disable)/i) &&
-    !key.includes('_') &&
-    key.length > 1 &&
-    key !== key.toUpperCase()
-  );
+  return !Array.isArray(value) && !Array.isArray(defaultValue) && value === defaultValue;
 }
@@ -0,0 +1,57 @@
+/**
+ * Parsing of the raw command strings accepted by `execute` and `job_start`
+ */
+
+import { parse } from 'shell-quote';
+import { PolicyViolationError } from './policy.js';
+
+/**
+ * Split a command string into argv the way a shell would, without running a shell. Commands
+ * are never passed through a shell, so operators (`|`, `>`, `&&`, ...) and comments are
+ * rejected rather than dropped. Globs and variables (`$HOME`, `${HOME:-x}`) are kept as written.
+ */
+export function parseCommandLine(command: string): string[] {
+  const variables = findVariables(command);
+  let nextVariable = 0;
+  const parsed = parse(command, () => variables[nextVariable++] ?? '');
+
+  return parsed.map(entry => {
+    if (typeof entry === 'string') return entry;
+    if ('op' in entry && entry.op === 'glob') return entry.pattern;
+
+    const operator = 'op' in entry ? entry.op : `#${entry.comment}`;
+    throw new PolicyViolationError(
+      `Shell syntax '${operator}' is not supported; commands do not run in a shell, ` +
+        'so quote it to pass it literally'
+    );
+  });
+}
+
+const VARIABLE = /^\$(?:\{[^}]*\}|[*@#?$!_-]|\w*)/;
+
+/**
+ * The source text of each variable reference shell-quote expands, in order: unquoted or in
+ * double quotes, and not escaped. shell-quote only passes the name, which loses `${...}`.
+ */
+function findVariables(command: string): string[] {
+  const variables: string[] = [];
+  let quote: string | null = null;
+
+  for (let index = 0; index < command.length; index++) {
+    const char = command[index];
+
+    if (quote === "'") {
+      if (char === "'") quote = null;
+    } else if (char === '\\') {
+      index++;
+    } else if (char === '"' || char === "'") {
+      quote = quote === char ? null : (quote ?? char);
+    } else if (char === '$') {
+      const variable = command.slice(index).match(VARIABLE)![0];
+      variables.push(variable);
+      index += variable.length - 1;
+    }
+  }
+
+  return variables;
+}
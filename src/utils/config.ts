@@ -0,0 +1,191 @@
+import { existsSync, readFileSync } from 'fs';
+import { ServerConfig } from '../types/config.js';
+import { createLogger } from './logger.js';
+
+export function loadServerConfig(configFile: string): ServerConfig | null {
+  const logger = createLogger({ prefix: 'config' });
+
+  if (!existsSync(configFile)) {
+    logger.error(`Config file not found: ${configFile}`);
+    return null;
+  }
+
+  try {
+    const content = readFileSync(configFile, 'utf-8');
+    const config = JSON.parse(content) as ServerConfig;
+
+    if (!isPlainObject(config)) {
+      logger.error('Invalid config file format');
+      return null;
+    }
+
+    if (config.policy !== undefined && !isStringArray(config.policy)) {
+      logger.error('Invalid config: policy must be an array of strings');
+      return null;
+    }
+
+    for (const key of ['allowedRoots', 'envAllowlist', 'secretEnv'] as const) {
+      if (config[key] !== undefined && !isStringArray(config[key])) {
+        logger.error(`Invalid config: ${key} must be an array of strings`);
+        return null;
+      }
+    }
+
+    if (config.env !== undefined && !isStringRecord(config.env)) {
+      logger.error('Invalid config: env must map variable names to strings');
+      return null;
+    }
+
+    if (config.redactPatterns !== undefined && !isStringRecord(config.redactPatterns)) {
+      logger.error('Invalid config: redactPatterns must map labels to regular expressions');
+      return null;
+    }
+
+    for (const [name, source] of Object.entries(config.redactPatterns || {})) {
+      if (!isValidRegex(source)) {
+        logger.error(`Invalid config: redactPatterns.${name} is not a valid regular expression`);
+        return null;
+      }
+    }
+
+    if (
+      config.locale !== undefined &&
+      config.locale !== null &&
+      typeof config.locale !== 'string'
+    ) {
+      logger.error('Invalid config: locale must be a string or null');
+      return null;
+    }
+
+    for (const key of ['readOnly', 'confirmDestructive', 'builtInDetectors'] as const) {
+      if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+        logger.error(`Invalid config: ${key} must be a boolean`);
+        return null;
+      }
+    }
+
+    for (const key of [
+      'timeoutMs',
+      'maxTimeoutMs',
+      'maxOutputBytes',
+      'maxOutputLines',
+      'maxJobs',
+    ] as const) {
+      if (config[key] !== undefined && !isPositiveNumber(config[key])) {
+        logger.error(`Invalid config: ${key} must be a positive number`);
+        return null;
+      }
+    }
+
+    if (config.execute !== undefined) {
+      const { enabled, name, knownCommandsOnly } = config.execute;
+      if (
+        !isPlainObject(config.execute) ||
+        (enabled !== undefined && typeof enabled !== 'boolean') ||
+        (knownCommandsOnly !== undefined && typeof knownCommandsOnly !== 'boolean')
+      ) {
+        logger.error(
+          'Invalid config: execute.enabled and execute.knownCommandsOnly must be booleans'
+        );
+        return null;
+      }
+
+      if (
+        name !== undefined &&
+        (typeof name !== 'string' || !/^[A-Za-z0-9_.-]{1,64}$/.test(name))
+      ) {
+        logger.error('Invalid config: execute.name must be a valid tool name');
+        return null;
+      }
+    }
+
+    if (config.audit !== undefined) {
+      const { file, hashOutput, maxBytes, maxFiles } = config.audit;
+      if (!isPlainObject(config.audit) || typeof file !== 'string' || !file) {
+        logger.error('Invalid config: audit.file must be a file path');
+        return null;
+      }
+
+      if (hashOutput !== undefined && typeof hashOutput !== 'boolean') {
+        logger.error('Invalid config: audit.hashOutput must be a boolean');
+        return null;
+      }
+
+      if (
+        (maxBytes !== undefined && !isPositiveNumber(maxBytes)) ||
+        (maxFiles !== undefined && !isPositiveNumber(maxFiles))
+      ) {
+        logger.error('Invalid config: audit.maxBytes and audit.maxFiles must be positive numbers');
+        return null;
+      }
+    }
+
+    if (config.tools !== undefined && !isPlainObject(config.tools)) {
+      logger.error('Invalid config: tools must be an object keyed by tool pattern');
+      return null;
+    }
+
+    for (const [pattern, toolConfig] of Object.entries(config.tools || {})) {
+      const { successExitCodes, stdin, env, timeoutMs } = toolConfig;
+      for (const key of ['forbidFlags', 'requireFlags', 'forbidValues'] as const) {
+        if (toolConfig[key] !== undefined && !isStringArray(toolConfig[key])) {
+          logger.error(`Invalid config: tools.${pattern}.${key} must be an array of strings`);
+          return null;
+        }
+      }
+
+      if (
+        successExitCodes !== undefined &&
+        (!Array.isArray(successExitCodes) || !successExitCodes.every(Number.isInteger))
+      ) {
+        logger.error(`Invalid config: tools.${pattern}.successExitCodes must be integers`);
+        return null;
+      }
+
+      if (timeoutMs !== undefined && !isPositiveNumber(timeoutMs)) {
+        logger.error(`Invalid config: tools.${pattern}.timeoutMs must be a positive number`);
+        return null;
+      }
+
+      if (stdin !== undefined && typeof stdin !== 'boolean') {
+        logger.error(`Invalid config: tools.${pattern}.stdin must be a boolean`);
+        return null;
+      }
+
+      if (env !== undefined && !isStringRecord(env)) {
+        logger.error(`Invalid config: tools.${pattern}.env must map variable names to strings`);
+        return null;
+      }
+    }
+
+    return config;
+  } catch (error) {
+    logger.error(`Failed to load config: ${error}`);
+    return null;
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isPlainObject(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return isPlainObject(value) && Object.values(value as object).every(v => typeof v === 'string');
+}
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
@@ -0,0 +1,56 @@
+/**
+ * Environment passed to commands: allowlist, injected variables and secret detection
+ */
+
+import { ServerConfig } from '../types/config.js';
+import { matchesPattern, resolveToolConfig } from './policy.js';
+
+/** Needed to locate the command itself, so it is passed even when not allowlisted */
+export const ALWAYS_ALLOWED_ENV = ['PATH'];
+
+/** Variable names whose values are treated as secrets and redacted from output */
+export const DEFAULT_SECRET_ENV_PATTERNS = [
+  '/TOKEN/i',
+  '/SECRET/i',
+  '/PASSW(OR)?D/i',
+  '/CREDENTIAL/i',
+  '/PRIVATE/i',
+  '/(^|_)(API_?)?KEY$/i',
+  '/_AUTH$/i',
+];
+
+/**
+ * Build the environment for a tool: inherited variables matching `envAllowlist` (all of them
+ * when unset), then the global `env`, then the tool's own `env`
+ */
+export function buildCommandEnv(
+  config: ServerConfig,
+  toolName: string,
+  baseEnv: Record<string, string | undefined> = process.env
+): Record<string, string> {
+  const env: Record<string, string> = {};
+  const allowlist = config.envAllowlist && [...ALWAYS_ALLOWED_ENV, ...config.envAllowlist];
+
+  for (const [name, value] of Object.entries(baseEnv)) {
+    if (value === undefined) continue;
+    if (allowlist && !allowlist.some(pattern => matchesPattern(pattern, name))) continue;
+    env[name] = value;
+  }
+
+  return { ...env, ...config.env, ...resolveToolConfig(config, toolName).env };
+}
+
+/**
+ * Pick the variables whose values must not appear in output: secret-looking names plus
+ * any matching the configured `secretEnv` patterns
+ */
+export function getSecretEnv(
+  config: ServerConfig,
+  env: Record<string, string>
+): Record<string, string> {
+  const patterns = [...DEFAULT_SECRET_ENV_PATTERNS, ...(config.secretEnv || [])];
+
+  return Object.fromEntries(
+    Object.entries(env).filter(([name]) => patterns.some(pattern => matchesPattern(pattern, name)))
+  );
+}
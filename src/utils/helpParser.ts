@@ -1,5 +1,5 @@
 import parseHelp from 'parse-help';
-import { CliCommand, CliOption, CliArgument } from '../types/cli.js';
+import { CliCommand, CliOption, CliArgument, OptionValue } from '../types/cli.js';
 import {
   PATTERNS,
   parseHelpSections,
@@ -37,20 +37,28 @@ export function parseHelpText(helpText: string, commandName: string): CliCommand
     };
   }
   try {
-    const parsed = parseHelp(helpText);
-
-    const options: CliOption[] = [];
+    // parse-help cannot read `--[no-]foo`, so pass it `--foo` and remember the negation
+    const negatable = new Set<string>();
+    const { text, styles } = normalizeOptionSyntax(
+      helpText.replace(/--\[no-\]([a-z][a-z0-9-]*)/gi, (_, name: string) => {
+        negatable.add(`--${name}`);
+        return `--${name}`;
+      })
+    );
+    const parsed = parseHelp(text);
+
+    let options: CliOption[] = [];
     if (parsed.flags) {
       for (const [flagName, flagData] of Object.entries(parsed.flags)) {
         options.push({
           name: `--${flagName}`,
           shortName: flagData.alias ? `-${flagData.alias}` : undefined,
-          description: flagData.description || '',
-          valueRequired: flagData.type !== 'boolean' && flagData.type !== undefined,
-          valueName: flagData.type === 'string' ? 'value' : undefined,
+          ...parseOptionValue(flagData.description || ''),
+          ...styles.get(`--${flagName}`),
         });
       }
     }
+    options = applyNegations(options, negatable);
 
     return {
       name: commandName,
@@ -71,6 +79,296 @@ export function parseHelpText(helpText: string, commandName: string): CliCommand
   }
 }
 
+/** Value placeholders naming a number */
+const NUMERIC_VALUE_NAMES = new Set([
+  'n',
+  'num',
+  'number',
+  'int',
+  'integer',
+  'count',
+  'port',
+  'depth',
+  'limit',
+  'lines',
+  'jobs',
+  'seconds',
+  'secs',
+  'ms',
+]);
+
+/**
+ * Value types printed by cobra/pflag in place of a placeholder (`--output string`). Durations
+ * stay strings because they carry a unit (`30s`).
+ */
+const FLAG_VALUE_TYPES: Record<string, Pick<CliOption, 'valueType' | 'repeatable'>> = {
+  string: {},
+  duration: {},
+  stringToString: {},
+  int: { valueType: 'number' },
+  int32: { valueType: 'number' },
+  int64: { valueType: 'number' },
+  uint: { valueType: 'number' },
+  uint16: { valueType: 'number' },
+  uint32: { valueType: 'number' },
+  uint64: { valueType: 'number' },
+  float32: { valueType: 'number' },
+  float64: { valueType: 'number' },
+  strings: { repeatable: true },
+  stringArray: { repeatable: true },
+  stringSlice: { repeatable: true },
+  ints: { valueType: 'number', repeatable: true },
+};
+
+const VALUE_PLACEHOLDERS = {
+  ANGLE: /^\[?<([^>]+)>\]?(\.\.\.)?(?:\s+|$)/,
+  BRACES: /^\{([^}]+)\}(\.\.\.)?(?:\s+|$)/,
+  UPPERCASE: /^\[?([A-Z][A-Z0-9_]*(?:[=:][A-Z][A-Z0-9_]*)?)\]?(\.\.\.)?(?:\s{2,}|$)/,
+  FLAG_TYPE: /^([a-z][A-Za-z0-9]*)(?:\s{2,}|$)/,
+  // Cobra's own value names (`--json fields`); a description cannot end the line here
+  LOWERCASE: /^([a-z][a-z0-9_-]*)\s{2,}(?=\S)/,
+} as const;
+
+const CHOICE_SEPARATOR = /\s*[,|]\s*/;
+const DEFAULT_PATTERN =
+  /[([]default(?: value)?:?\s*(?:"([^"]*)"|'([^']*)'|(\[[^\]]*\]|[^)\]]*?))\s*[)\]]/i;
+const REPEATABLE_PATTERN =
+  /\b(?:multiple times|more than once|can be repeated|may be repeated|repeatable)\b/i;
+
+type ParsedOptionValue = Omit<CliOption, 'name' | 'shortName'>;
+
+/**
+ * Work out what value an option takes from the start of its parse-help description, where the
+ * value placeholder ends up (`<PATH>  Path to ...`, `{json,yaml}  Format`, `int  Limit`,
+ * `fields  Output JSON`).
+ * Options without a placeholder are switches. The placeholder is removed from the description.
+ */
+function parseOptionValue(rawDescription: string): ParsedOptionValue {
+  const angle = rawDescription.match(VALUE_PLACEHOLDERS.ANGLE);
+  const braces = !angle && rawDescription.match(VALUE_PLACEHOLDERS.BRACES);
+  const upper = !angle && !braces && rawDescription.match(VALUE_PLACEHOLDERS.UPPERCASE);
+  const flagType = rawDescription.match(VALUE_PLACEHOLDERS.FLAG_TYPE);
+  const typeInfo = flagType && Object.hasOwn(FLAG_VALUE_TYPES, flagType[1]) ? flagType : null;
+  const lower =
+    !angle && !braces && !upper && !typeInfo && rawDescription.match(VALUE_PLACEHOLDERS.LOWERCASE);
+
+  const match = angle || braces || upper || typeInfo || lower;
+  if (!match) {
+    return withDefaultValue({ description: rawDescription, valueRequired: false });
+  }
+
+  const description = rawDescription.slice(match[0].length).trim();
+  const valueName = match[1];
+  const value: ParsedOptionValue = { description, valueRequired: true, valueName };
+
+  if (typeInfo) {
+    Object.assign(value, FLAG_VALUE_TYPES[valueName]);
+  } else if (NUMERIC_VALUE_NAMES.has(valueName.toLowerCase())) {
+    value.valueType = 'number';
+  }
+
+  // Choices listed in the description ("One of: json, jsonpath, ...") often take arguments of
+  // their own (`jsonpath=...`), so only placeholders become an enum
+  const placeholderChoices = braces || (angle && valueName.includes('|')) ? valueName : null;
+  const choices = placeholderChoices?.split(CHOICE_SEPARATOR);
+  if (choices && choices.length > 1 && value.valueType !== 'number') {
+    value.choices = choices;
+  }
+
+  if (match[2] || REPEATABLE_PATTERN.test(description)) {
+    value.repeatable = true;
+  }
+
+  return withDefaultValue(value);
+}
+
+/**
+ * Record the default stated in an option's description (`(default: 30s)`, `(default "main")`,
+ * `[default: 5]`) when it is a valid value for the option
+ */
+function withDefaultValue(option: ParsedOptionValue): ParsedOptionValue {
+  const match = option.description.match(DEFAULT_PATTERN);
+  if (!match) return option;
+
+  const raw = match[1] ?? match[2] ?? match[3].trim();
+  const defaultValue = convertDefaultValue(option, raw);
+
+  return defaultValue === undefined ? option : { ...option, defaultValue };
+}
+
+function convertDefaultValue(option: ParsedOptionValue, raw: string): OptionValue | undefined {
+  if (!option.valueRequired) {
+    return raw === 'true' || raw === 'false' ? raw === 'true' : undefined;
+  }
+
+  const convert = (text: string): string | number | undefined => {
+    if (option.valueType === 'number') {
+      return text !== '' && Number.isFinite(Number(text)) ? Number(text) : undefined;
+    }
+    return !option.choices || option.choices.includes(text) ? text : undefined;
+  };
+
+  if (option.repeatable) {
+    const items = raw
+      .replace(/^\[|\]$/g, '')
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean)
+      .map(convert);
+    return items.every(item => item !== undefined) ? (items as Array<string | number>) : undefined;
+  }
+
+  return convert(raw);
+}
+
+const OPTION_SYNTAX_PATTERN =
+  /^([ \t]*(?:-[A-Za-z0-9],[ \t]*)?)(--?)([A-Za-z][\w.-]*)(?:=([^\s\]]+)|\[=([^\s\]]+)\]|(<[^>]+>(?:=<[^>]+>)?)|[ \t]+('[^']*'|"[^"]*"))?(?=[\s,]|$)/gm;
+
+/**
+ * kubectl's help format: `--name=DEFAULT:` with the description on the indented lines below
+ * (`-A, --all-namespaces=false:`, `-o, --output='':`, `--chunk-size=500:`)
+ */
+const DEFAULT_VALUE_OPTION_PATTERN =
+  /^([ \t]*(?:-[A-Za-z0-9],[ \t]*)?)--([A-Za-z][\w.-]*)=('[^']*'|"[^"]*"|\S*?):[ \t]*$((?:\n(?![ \t]*-)[ \t]+\S.*)*)/gm;
+
+/**
+ * Rewrite option forms parse-help cannot read into `--name <VALUE>`, and record how each flag
+ * is really written: `--name=VALUE` and `--name[=VALUE]`, single-dash long options
+ * (`-var-file=foo`, `-name PATTERN`, `-var 'foo=bar'`) and attached values (`-D<name>=<value>`).
+ * A short alias takes its value as a separate argument, or attached when the value is optional.
+ * kubectl's `--name=DEFAULT:` entries become one line with the default in the description.
+ */
+function normalizeOptionSyntax(helpText: string): {
+  text: string;
+  styles: Map<string, Pick<CliOption, 'name' | 'syntax' | 'shortSyntax'>>;
+} {
+  const styles = new Map<string, Pick<CliOption, 'name' | 'syntax' | 'shortSyntax'>>();
+
+  const described = helpText.replace(DEFAULT_VALUE_OPTION_PATTERN, toDescribedDefault);
+  const text = described.replace(
+    OPTION_SYNTAX_PATTERN,
+    (match, prefix: string, dashes: string, name: string, ...values: Array<string | undefined>) => {
+      const [equalsValue, optionalValue, attachedValue, quotedValue] = values;
+      const singleDash = dashes === '-';
+
+      if (singleDash ? name.length === 1 && !attachedValue : !equalsValue && !optionalValue) {
+        return match;
+      }
+
+      const syntax = attachedValue
+        ? 'attached'
+        : equalsValue || optionalValue
+          ? 'equals'
+          : undefined;
+      styles.set(`--${name}`, {
+        name: `${dashes}${name}`,
+        ...(syntax && { syntax }),
+        ...(optionalValue && { shortSyntax: 'attached' }),
+      });
+
+      const value = equalsValue ?? attachedValue ?? quotedValue;
+      const placeholder = optionalValue
+        ? `[${toPlaceholder(optionalValue)}]`
+        : value && toPlaceholder(value);
+
+      return `${prefix}--${name}${placeholder ? ` ${placeholder}` : ''}`;
+    }
+  );
+
+  return { text, styles };
+}
+
+/**
+ * Rewrite a kubectl `--name=DEFAULT:` entry as `--name TYPE  Description (default: DEFAULT)`.
+ * A `true`/`false` default makes it a switch; otherwise the default picks the pflag type.
+ */
+function toDescribedDefault(
+  _match: string,
+  prefix: string,
+  name: string,
+  rawDefault: string,
+  rawDescription: string
+): string {
+  const defaultValue = rawDefault.replace(/^(['"])(.*)\1$/, '$2');
+  const valueType = /^(true|false)$/.test(defaultValue)
+    ? ''
+    : /^-?\d+$/.test(defaultValue)
+      ? 'int'
+      : /^\[.*\]$/.test(defaultValue)
+        ? 'strings'
+        : 'string';
+  const description = [
+    rawDescription.trim().replace(/\s+/g, ' '),
+    defaultValue &&
+      defaultValue !== '[]' &&
+      `(default: ${valueType === 'string' ? JSON.stringify(defaultValue) : defaultValue})`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  return `${prefix}--${name}${valueType && ` ${valueType}`}  ${description}`;
+}
+
+/**
+ * Turn a value written after `=` or in quotes into a placeholder `parseOptionValue` reads
+ */
+function toPlaceholder(value: string): string {
+  if (/^(true|false)$/.test(value)) return '{true,false}';
+  if (/^[<{]/.test(value)) return value.replace(/>=</g, '=');
+  return `<${value.replace(/^['"]|['"]$/g, '')}>`;
+}
+
+/**
+ * Give switches that can be turned off the flag that does so: `--no-foo` for `--[no-]foo` or
+ * when both forms are listed, and `--foo=false` for switches that default to true. A lone
+ * `--no-foo` becomes a `--foo` switch that is on by default, so `false` passes `--no-foo`.
+ * The short alias of a negation (`-n, --no-verify`) is kept as `negationShortName`.
+ */
+function applyNegations(options: CliOption[], negatable: Set<string>): CliOption[] {
+  const switches = new Set(options.filter(option => !option.valueRequired).map(o => o.name));
+  const result: CliOption[] = [];
+
+  for (const option of options) {
+    if (option.valueRequired) {
+      result.push(option);
+      continue;
+    }
+
+    const negated = option.name.match(/^--no-(.+)$/);
+    if (negated) {
+      const positiveName = `--${negated[1]}`;
+      if (switches.has(positiveName)) continue;
+
+      if (!options.some(other => other.name === positiveName)) {
+        result.push({
+          name: positiveName,
+          description: `Pass false for ${option.name}: ${option.description}`,
+          valueRequired: false,
+          defaultValue: true,
+          negation: option.name,
+          ...(option.shortName && { negationShortName: option.shortName }),
+        });
+        continue;
+      }
+
+      result.push(option);
+      continue;
+    }
+
+    const negation = `--no-${option.name.slice(2)}`;
+    if (negatable.has(option.name) || switches.has(negation)) {
+      const negationShortName = options.find(other => other.name === negation)?.shortName;
+      result.push({ ...option, negation, ...(negationShortName && { negationShortName }) });
+    } else if (option.defaultValue === true) {
+      result.push({ ...option, negation: `${option.name}=false` });
+    } else {
+      result.push(option);
+    }
+  }
+
+  return result;
+}
+
 function extractDescription(helpText: string, commandName: string): string {
   if (!helpText) return '';
   const lines = helpText.split('\n');
@@ -152,23 +450,35 @@ function parseSubcommandsFromText(helpText: string): CliCommand[] {
   return subcommands;
 }
 
+/**
+ * Read positional arguments from `Arguments:` sections, which run until the next unindented line
+ */
 function parseArgumentsFromText(helpText: string): CliArgument[] {
   if (!helpText) return [];
-  const sections = parseHelpSections(helpText);
   const args: CliArgument[] = [];
+  let inArgumentSection = false;
 
-  const argSections = sections.filter(s => s.name.includes('argument') || s.name === 'args');
-
-  for (const section of argSections) {
-    for (const line of section.content) {
-      const match = line.match(PATTERNS.ARGUMENT_ENTRY);
-      if (match) {
-        args.push({
-          name: match[1],
-          description: match[2].trim(),
-          required: line.includes('<'),
-        });
-      }
+  for (const line of helpText.split('\n')) {
+    if (PATTERNS.ARGUMENT_SECTION.test(line)) {
+      inArgumentSection = true;
+      continue;
+    }
+    if (!line.trim()) continue;
+    if (!/^\s/.test(line)) {
+      inArgumentSection = false;
+      continue;
+    }
+    if (!inArgumentSection) continue;
+
+    const match = line.match(PATTERNS.ARGUMENT_ENTRY);
+    if (match) {
+      const name = match[1].replace(/\.\.\.$/, '');
+      args.push({
+        name,
+        description: match[3].trim(),
+        required: line.includes('<'),
+        ...((match[2] || name !== match[1]) && { variadic: true }),
+      });
     }
   }
 
@@ -0,0 +1,242 @@
+/**
+ * Background jobs for commands that run until stopped (servers, watchers, `logs -f`)
+ */
+
+import { randomUUID } from 'crypto';
+import { CommandResult } from '../types/cli.js';
+import { DEFAULT_MAX_BUFFER_BYTES, ProcessOptions, runProcess } from './processUtils.js';
+import { OutputStream } from './outputLimiter.js';
+import { findRedactableEnd, Redactor } from './redaction.js';
+
+export const DEFAULT_MAX_JOBS = 5;
+export const DEFAULT_RETAINED_JOBS = 20;
+
+export interface JobStatus {
+  id: string;
+  argv: string[];
+  running: boolean;
+  exitCode: number | null;
+  startedAt: string;
+  durationMs: number;
+  stdoutBytes: number;
+  stderrBytes: number;
+  timedOut?: boolean;
+  cancelled?: boolean;
+}
+
+export interface JobOutput {
+  id: string;
+  running: boolean;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  /** Offsets to pass to the next call to continue where this one ended */
+  stdoutOffset: number;
+  stderrOffset: number;
+}
+
+export interface JobOptions extends ProcessOptions {
+  /** Applied to output when it is read */
+  redact?: Redactor;
+  /** Called once the job's process has exited, with the output the job still retains */
+  onExit?: (result: CommandResult) => void;
+}
+
+interface Job {
+  id: string;
+  argv: string[];
+  startTime: number;
+  controller: AbortController;
+  output: Record<OutputStream, RollingBuffer>;
+  result: CommandResult | null;
+  done: Promise<CommandResult>;
+  redact: Redactor;
+}
+
+/**
+ * Output buffer that keeps the most recent bytes. Offsets are absolute, so readers can tell
+ * when output they have not read yet was dropped.
+ */
+class RollingBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private dropped = 0;
+  private maxBytes: number;
+
+  constructor(maxBytes: number) {
+    this.maxBytes = maxBytes;
+  }
+
+  get totalBytes(): number {
+    return this.dropped + this.size;
+  }
+
+  append(chunk: string): void {
+    const data = Buffer.from(chunk);
+    this.chunks.push(data);
+    this.size += data.length;
+
+    while (this.size > this.maxBytes && this.chunks.length > 1) {
+      const removed = this.chunks.shift() as Buffer;
+      this.size -= removed.length;
+      this.dropped += removed.length;
+    }
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString();
+  }
+
+  /**
+   * Read a page of output. Unless the page reaches the end of finished output, it stops at a
+   * line end (see `findRedactableEnd`) so each page can be redacted on its own.
+   */
+  read(offset: number, maxBytes: number, complete: boolean): { text: string; nextOffset: number } {
+    const start = Math.max(offset, this.dropped);
+    const buffer = Buffer.concat(this.chunks);
+    const pageStart = start - this.dropped;
+    let end = Math.min(pageStart + maxBytes, buffer.length);
+
+    if (!complete || end < buffer.length) {
+      const page = buffer.subarray(pageStart, end).toString();
+      const safeEnd = findRedactableEnd(page);
+      // A line longer than a whole page is released anyway
+      if (safeEnd > 0 || end - pageStart < maxBytes) {
+        end = pageStart + Buffer.byteLength(page.slice(0, safeEnd));
+      }
+    }
+
+    const text = buffer.subarray(pageStart, end).toString();
+    const skipped = start > offset ? `[${start - offset} bytes dropped]\n` : '';
+
+    return { text: skipped + text, nextOffset: this.dropped + end };
+  }
+}
+
+export class JobManager {
+  private jobs = new Map<string, Job>();
+  private maxJobs: number;
+
+  constructor(maxJobs: number = DEFAULT_MAX_JOBS) {
+    this.maxJobs = maxJobs;
+  }
+
+  /**
+   * Start a command in the background. It runs until it exits or is stopped.
+   */
+  start(command: string, args: string[], options: JobOptions = {}): JobStatus {
+    const running = [...this.jobs.values()].filter(job => !job.result).length;
+    if (running >= this.maxJobs) {
+      throw new Error(`Too many running jobs (limit ${this.maxJobs}); stop one first`);
+    }
+
+    const { redact = (text: string) => text, onExit, ...processOptions } = options;
+    const controller = new AbortController();
+    const output = {
+      stdout: new RollingBuffer(DEFAULT_MAX_BUFFER_BYTES),
+      stderr: new RollingBuffer(DEFAULT_MAX_BUFFER_BYTES),
+    };
+
+    const job: Job = {
+      id: randomUUID().slice(0, 8),
+      argv: [command, ...args],
+      startTime: Date.now(),
+      controller,
+      output,
+      result: null,
+      done: runProcess(command, args, {
+        timeout: 0,
+        ...processOptions,
+        // Output is kept by the job; the process result only needs the exit status
+        maxBufferBytes: 0,
+        signal: controller.signal,
+        onOutput: (stream, chunk) => output[stream].append(chunk),
+      }),
+      redact,
+    };
+
+    job.done.then(result => {
+      job.result = result;
+      // Spawn failures and timeouts are only reported in the result
+      if (output.stderr.totalBytes === 0 && result.stderr) {
+        output.stderr.append(result.stderr);
+      }
+      onExit?.({ ...result, stdout: output.stdout.toString(), stderr: output.stderr.toString() });
+    });
+
+    this.jobs.set(job.id, job);
+    this.evictFinishedJobs();
+    return this.describe(job);
+  }
+
+  status(id: string): JobStatus | null {
+    const job = this.jobs.get(id);
+    return job ? this.describe(job) : null;
+  }
+
+  output(
+    id: string,
+    stdoutOffset: number,
+    stderrOffset: number,
+    maxBytes: number
+  ): JobOutput | null {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    const complete = !!job.result;
+    const stdout = job.output.stdout.read(stdoutOffset, maxBytes, complete);
+    const stderr = job.output.stderr.read(stderrOffset, maxBytes, complete);
+
+    return {
+      id: job.id,
+      running: !job.result,
+      exitCode: job.result?.exitCode ?? null,
+      stdout: job.redact(stdout.text),
+      stderr: job.redact(stderr.text),
+      stdoutOffset: stdout.nextOffset,
+      stderrOffset: stderr.nextOffset,
+    };
+  }
+
+  /**
+   * Terminate the job's process group and wait for it to exit
+   */
+  async stop(id: string): Promise<JobStatus | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    job.controller.abort();
+    job.result = await job.done;
+    return this.describe(job);
+  }
+
+  stopAll(): void {
+    for (const job of this.jobs.values()) {
+      job.controller.abort();
+    }
+  }
+
+  private describe(job: Job): JobStatus {
+    const end = job.result ? job.startTime + (job.result.durationMs ?? 0) : Date.now();
+
+    return {
+      id: job.id,
+      argv: job.argv,
+      running: !job.result,
+      exitCode: job.result?.exitCode ?? null,
+      startedAt: new Date(job.startTime).toISOString(),
+      durationMs: end - job.startTime,
+      stdoutBytes: job.output.stdout.totalBytes,
+      stderrBytes: job.output.stderr.totalBytes,
+      ...(job.result?.timedOut && { timedOut: true }),
+      ...(job.result?.cancelled && { cancelled: true }),
+    };
+  }
+
+  private evictFinishedJobs(): void {
+    const finished = [...this.jobs.values()].filter(job => job.result);
+    for (const job of finished.slice(0, Math.max(finished.length - DEFAULT_RETAINED_JOBS, 0))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
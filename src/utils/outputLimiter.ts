@@ -0,0 +1,138 @@
+/**
+ * Output size limits: head+tail truncation and retention of full output for paging
+ */
+
+import { randomUUID } from 'crypto';
+import { CommandResult } from '../types/cli.js';
+
+export const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024;
+export const DEFAULT_MAX_OUTPUT_LINES = 2000;
+export const DEFAULT_STORED_OUTPUT_BYTES = 50 * 1024 * 1024;
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface OutputLimits {
+  maxBytes: number;
+  maxLines: number;
+}
+
+export interface OutputPage {
+  text: string;
+  offset: number;
+  nextOffset: number | null;
+  totalBytes: number;
+}
+
+/**
+ * Keeps the full output of recently truncated results so they can be read page by page. The
+ * oldest entries are evicted once the stored output exceeds `maxBytes`; the newest is always
+ * kept so its id stays readable.
+ */
+export class OutputStore {
+  private entries = new Map<string, Record<OutputStream, Buffer>>();
+  private totalBytes = 0;
+  private maxBytes: number;
+
+  constructor(maxBytes: number = DEFAULT_STORED_OUTPUT_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+
+  save(result: CommandResult): string {
+    const id = randomUUID().slice(0, 8);
+    const entry = { stdout: Buffer.from(result.stdout), stderr: Buffer.from(result.stderr) };
+    this.entries.set(id, entry);
+    this.totalBytes += entrySize(entry);
+
+    while (this.totalBytes > this.maxBytes && this.entries.size > 1) {
+      const [oldest, evicted] = this.entries.entries().next().value as [
+        string,
+        Record<OutputStream, Buffer>,
+      ];
+      this.entries.delete(oldest);
+      this.totalBytes -= entrySize(evicted);
+    }
+
+    return id;
+  }
+
+  read(id: string, stream: OutputStream, offset: number, length: number): OutputPage | null {
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+
+    const buffer = entry[stream];
+    const start = Math.min(Math.max(offset, 0), buffer.length);
+    const end = Math.min(start + length, buffer.length);
+
+    return {
+      text: buffer.subarray(start, end).toString(),
+      offset: start,
+      nextOffset: end < buffer.length ? end : null,
+      totalBytes: buffer.length,
+    };
+  }
+}
+
+/**
+ * Truncate stdout and stderr that exceed the limits. The full output is kept in the store and
+ * the omission markers name the id to page through it.
+ */
+export function limitCommandOutput(
+  result: CommandResult,
+  limits: OutputLimits,
+  store: OutputStore
+): CommandResult {
+  if (!exceedsLimits(result.stdout, limits) && !exceedsLimits(result.stderr, limits)) {
+    return result;
+  }
+
+  const outputId = store.save(result);
+
+  return {
+    ...result,
+    stdout: truncateOutput(result.stdout, limits, outputId, 'stdout'),
+    stderr: truncateOutput(result.stderr, limits, outputId, 'stderr'),
+    outputId,
+  };
+}
+
+export function truncateOutput(
+  text: string,
+  limits: OutputLimits,
+  outputId: string,
+  stream: OutputStream
+): string {
+  if (!exceedsLimits(text, limits)) return text;
+
+  let headSource = Buffer.from(text);
+  let tailSource = headSource;
+
+  const lines = text.split('\n');
+  if (lines.length > limits.maxLines) {
+    const headLines = Math.ceil(limits.maxLines / 2);
+    headSource = Buffer.from(lines.slice(0, headLines).join('\n'));
+    tailSource = Buffer.from(lines.slice(lines.length - (limits.maxLines - headLines)).join('\n'));
+  }
+
+  const halfBytes = Math.floor(limits.maxBytes / 2);
+  const head = headSource.subarray(0, halfBytes);
+  const tail = tailSource.subarray(Math.max(tailSource.length - halfBytes, 0));
+
+  const omittedBytes = Buffer.byteLength(text) - head.length - tail.length;
+  const marker =
+    `[... ${omittedBytes} bytes omitted; call get_output with id "${outputId}" ` +
+    `and stream "${stream}" to read the full output ...]`;
+
+  return `${head.toString()}\n${marker}\n${tail.toString()}`;
+}
+
+function entrySize(entry: Record<OutputStream, Buffer>): number {
+  return entry.stdout.length + entry.stderr.length;
+}
+
+function exceedsLimits(text: string, limits: OutputLimits): boolean {
+  return Buffer.byteLength(text) > limits.maxBytes || countLines(text) > limits.maxLines;
+}
+
+function countLines(text: string): number {
+  return text ? text.split('\n').length : 0;
+}
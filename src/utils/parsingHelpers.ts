@@ -13,7 +13,9 @@ export const PATTERNS = {
 
   COMMAND_ENTRY: /^\s+([a-z][a-zA-Z0-9_-]*)\s*:?\s+(.+)/,
 
-  ARGUMENT_ENTRY: /^\s*[<[](.+?)[>\]]\s+(.+)/,
+  ARGUMENT_SECTION: /^(?:Arguments|Args|Positional arguments):?\s*$/i,
+
+  ARGUMENT_ENTRY: /^\s*[<[](.+?)[>\]](\.\.\.)?\s+(.+)/,
 } as const;
 
 /**
@@ -0,0 +1,221 @@
+/**
+ * Tool path policy: decides which subcommands are exposed and may be executed
+ */
+
+import { CliCommand } from '../types/cli.js';
+import { CommandAccess, ServerConfig, ToolConfig } from '../types/config.js';
+import { classifyCommandAccess, isDestructiveCommand } from './commandClassifier.js';
+
+export class PolicyViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/**
+ * Match a tool path against a glob (`*`, `?`) or a `/regex/flags` pattern
+ */
+export function matchesPattern(pattern: string, value: string): boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    return new RegExp(regexMatch[1], regexMatch[2]).test(value);
+  }
+
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  const source = escaped.replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`).test(value);
+}
+
+/**
+ * Evaluate ordered include/exclude rules for a tool path. Rules prefixed with `!` exclude.
+ */
+export function isToolAllowed(rules: string[] | undefined, toolPath: string): boolean {
+  if (!rules || rules.length === 0) return true;
+
+  let allowed = rules.every(rule => rule.startsWith('!'));
+
+  for (const rule of rules) {
+    const excluded = rule.startsWith('!');
+    const pattern = excluded ? rule.slice(1) : rule;
+
+    if (matchesPattern(pattern, toolPath)) {
+      allowed = !excluded;
+    }
+  }
+
+  return allowed;
+}
+
+/**
+ * Resolve the tool name an argv invokes by walking the discovered command tree. Flags may come
+ * before the subcommand (`-n prod delete pod x`), so they are skipped along with their values.
+ * Known options say whether they take one; for an unknown flag followed by a plain argument both
+ * readings are followed, and the argv is rejected when they name different commands.
+ */
+export function resolveToolName(
+  rootCommand: CliCommand,
+  baseCommand: string,
+  argv: string[]
+): string {
+  const { path } = readCommandPath(rootCommand, argv);
+  return path.length > 0 ? path.join('-') : baseCommand;
+}
+
+interface CommandReading {
+  /** Subcommand names from the root down */
+  path: string[];
+  /** The positional argument found where a subcommand was expected */
+  unknown: string | null;
+}
+
+function readCommandPath(rootCommand: CliCommand, argv: string[]): CommandReading {
+  const readings = walkCommandTree(rootCommand, rootCommand, argv, 0, []);
+
+  if (new Set(readings.map(reading => reading.path.join(' '))).size > 1) {
+    throw new PolicyViolationError(
+      `Cannot tell which command '${argv.join(' ')}' runs: a flag before the subcommand may or ` +
+        'may not take a value. Put flags after the subcommand or write them as --flag=value'
+    );
+  }
+
+  return readings.find(reading => reading.unknown !== null) ?? readings[0];
+}
+
+function walkCommandTree(
+  rootCommand: CliCommand,
+  start: CliCommand,
+  argv: string[],
+  startIndex: number,
+  startPath: string[]
+): CommandReading[] {
+  let current = start;
+  let path = startPath;
+
+  for (let index = startIndex; index < argv.length; index++) {
+    if (current.subcommands.length === 0) break;
+
+    const arg = argv[index];
+    if (arg === '--') return [{ path, unknown: argv[index + 1] ?? null }];
+
+    if (arg.startsWith('-') && arg !== '-') {
+      if (arg.includes('=')) continue;
+
+      const takesValue = flagTakesValue(rootCommand, current, arg);
+      const nextArg = argv[index + 1];
+      if (takesValue === undefined && nextArg !== undefined && !nextArg.startsWith('-')) {
+        return [
+          ...walkCommandTree(rootCommand, current, argv, index + 2, path),
+          ...walkCommandTree(rootCommand, current, argv, index + 1, path),
+        ];
+      }
+
+      if (takesValue) index++;
+      continue;
+    }
+
+    const next = current.subcommands.find(sub => sub.name === arg);
+    if (!next) return [{ path, unknown: arg === '-' ? null : arg }];
+
+    path = [...path, next.name];
+    current = next;
+  }
+
+  return [{ path, unknown: null }];
+}
+
+/**
+ * Whether a flag takes a value, or undefined when the flag is not a known option
+ */
+function flagTakesValue(
+  rootCommand: CliCommand,
+  current: CliCommand,
+  flag: string
+): boolean | undefined {
+  const option = [...current.options, ...rootCommand.options].find(
+    candidate => candidate.name === flag || candidate.shortName === flag
+  );
+  return option?.valueRequired;
+}
+
+/**
+ * Find the argument that should have named a subcommand but is not in the discovered tree,
+ * skipping flags the same way `resolveToolName` does. Returns null when the argv stays within
+ * known commands; flags alone are fine (`--version`).
+ */
+export function findUnknownSubcommand(rootCommand: CliCommand, argv: string[]): string | null {
+  return readCommandPath(rootCommand, argv).unknown;
+}
+
+/**
+ * Merge the per-tool settings of every `tools` entry whose pattern matches the tool path
+ */
+export function resolveToolConfig(config: ServerConfig, toolName: string): ToolConfig {
+  const resolved: ToolConfig = {};
+
+  for (const [pattern, toolConfig] of Object.entries(config.tools || {})) {
+    if (matchesPattern(pattern, toolName)) {
+      Object.assign(resolved, toolConfig);
+    }
+  }
+
+  return resolved;
+}
+
+export function getToolAccess(
+  config: ServerConfig,
+  toolName: string,
+  description?: string
+): CommandAccess {
+  return resolveToolConfig(config, toolName).access ?? classifyCommandAccess(toolName, description);
+}
+
+export function isToolDestructive(
+  config: ServerConfig,
+  toolName: string,
+  description?: string
+): boolean {
+  return (
+    resolveToolConfig(config, toolName).destructive ?? isDestructiveCommand(toolName, description)
+  );
+}
+
+/**
+ * Whether calls to the tool must be confirmed by the user before running
+ */
+export function requiresConfirmation(
+  config: ServerConfig,
+  toolName: string,
+  description?: string
+): boolean {
+  return config.confirmDestructive !== false && isToolDestructive(config, toolName, description);
+}
+
+/**
+ * Check whether a tool may be registered and executed under the server configuration
+ */
+export function isToolPermitted(
+  config: ServerConfig,
+  toolName: string,
+  description?: string
+): boolean {
+  if (!isToolAllowed(config.policy, toolName)) return false;
+  if (config.readOnly && getToolAccess(config, toolName, description) !== 'read') return false;
+  return true;
+}
+
+export function assertToolPermitted(
+  config: ServerConfig,
+  toolName: string,
+  description?: string
+): void {
+  if (!isToolAllowed(config.policy, toolName)) {
+    throw new PolicyViolationError(`Tool '${toolName}' is not allowed by the configured policy`);
+  }
+
+  if (config.readOnly && getToolAccess(config, toolName, description) !== 'read') {
+    throw new PolicyViolationError(
+      `Tool '${toolName}' may modify state and is blocked in read-only mode`
+    );
+  }
+}
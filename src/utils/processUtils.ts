@@ -1,10 +1,31 @@
-import { spawn } from 'child_process';
+import { spawn, ChildProcess } from 'child_process';
+import { constants } from 'os';
 import { setTimeout, clearTimeout } from 'timers';
 import { CommandResult } from '../types/cli.js';
 
+export const DEFAULT_TIMEOUT_MS = 10000;
+export const DEFAULT_KILL_GRACE_PERIOD_MS = 2000;
+export const DEFAULT_MAX_BUFFER_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_LOCALE = 'C';
+
 export interface ProcessOptions {
+  /** Milliseconds before the process is terminated; 0 disables the timeout */
   timeout?: number;
   env?: Record<string, string>;
+  /** `LANG` for the process, so output is predictable; `null` keeps the inherited value */
+  locale?: string | null;
+  /** Working directory; defaults to the server's own */
+  cwd?: string;
+  /** Time between SIGTERM and SIGKILL when a timed out process does not exit */
+  killGracePeriod?: number;
+  /** Output retained per stream; anything beyond is discarded */
+  maxBufferBytes?: number;
+  /** Called with each chunk of output as it arrives */
+  onOutput?: (stream: 'stdout' | 'stderr', chunk: string) => void;
+  /** Aborting terminates the process group the same way a timeout does */
+  signal?: AbortSignal;
+  /** Text written to the process's stdin, which is closed afterwards */
+  input?: string;
 }
 
 export function runProcess(
@@ -13,48 +34,170 @@ export function runProcess(
   options: ProcessOptions = {}
 ): Promise<CommandResult> {
   return new Promise(resolve => {
-    const { timeout = 10000, env = process.env } = options;
+    const {
+      timeout = DEFAULT_TIMEOUT_MS,
+      env = process.env,
+      locale = DEFAULT_LOCALE,
+      cwd,
+      killGracePeriod = DEFAULT_KILL_GRACE_PERIOD_MS,
+      maxBufferBytes = DEFAULT_MAX_BUFFER_BYTES,
+      onOutput,
+      signal,
+      input,
+    } = options;
+
+    const startTime = Date.now();
+    const stdout = createOutputBuffer(maxBufferBytes);
+    const stderr = createOutputBuffer(maxBufferBytes);
+    let termination: 'timedOut' | 'cancelled' | null = null;
+    let settled = false;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    const finish = (result: CommandResult) => {
+      if (settled) return;
+      settled = true;
+      timers.forEach(timer => clearTimeout(timer));
+      signal?.removeEventListener('abort', cancel);
+      resolve({ ...result, argv: [command, ...args], durationMs: Date.now() - startTime });
+    };
 
-    const timeoutHandle = setTimeout(() => {
-      resolve({
-        stdout: '',
-        stderr: `Timeout after ${timeout}ms for ${command} ${args.join(' ')}`,
+    const finishTerminated = () => {
+      const commandLine = `${command} ${args.join(' ')}`;
+      const reason =
+        termination === 'cancelled'
+          ? `Cancelled: ${commandLine}`
+          : `Timed out after ${timeout}ms: ${commandLine}`;
+
+      finish({
+        stdout: stdout.toString(),
+        stderr: appendLine(stderr.toString(), reason),
         exitCode: -1,
+        ...(termination === 'cancelled' ? { cancelled: true } : { timedOut: true }),
       });
-    }, timeout);
+    };
+
+    const terminate = (reason: 'timedOut' | 'cancelled') => {
+      if (termination) return;
+      termination = reason;
+      killProcessGroup(proc, 'SIGTERM');
 
-    let stdout = '';
-    let stderr = '';
+      timers.push(
+        setTimeout(() => {
+          killProcessGroup(proc, 'SIGKILL');
+          // Descendants that escaped the group can keep the pipes open; stop waiting for them
+          timers.push(setTimeout(finishTerminated, killGracePeriod));
+        }, killGracePeriod)
+      );
+    };
+
+    const cancel = () => terminate('cancelled');
+
+    if (signal?.aborted) {
+      finish({ stdout: '', stderr: 'Cancelled before start', exitCode: -1, cancelled: true });
+      return;
+    }
 
     const proc = spawn(command, args, {
-      stdio: ['ignore', 'pipe', 'pipe'],
-      env: { ...env, LANG: 'C' },
+      stdio: [input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe'],
+      env: locale === null ? env : { ...env, LANG: locale },
+      cwd,
+      detached: process.platform !== 'win32',
     });
 
-    proc.stdout.on('data', data => {
-      stdout += data.toString();
+    if (input !== undefined && proc.stdin) {
+      // Commands may exit without reading all of their input
+      proc.stdin.on('error', () => {});
+      proc.stdin.end(input);
+    }
+
+    if (timeout > 0) {
+      timers.push(setTimeout(() => terminate('timedOut'), timeout));
+    }
+    signal?.addEventListener('abort', cancel);
+
+    proc.stdout?.on('data', (data: Buffer) => {
+      stdout.append(data);
+      onOutput?.('stdout', data.toString());
     });
 
-    proc.stderr.on('data', data => {
-      stderr += data.toString();
+    proc.stderr?.on('data', (data: Buffer) => {
+      stderr.append(data);
+      onOutput?.('stderr', data.toString());
     });
 
-    proc.on('close', code => {
-      clearTimeout(timeoutHandle);
-      resolve({
-        stdout,
-        stderr,
-        exitCode: code || 0,
+    proc.on('close', (code, exitSignal) => {
+      if (termination) {
+        finishTerminated();
+        return;
+      }
+
+      if (code === null && exitSignal) {
+        // Report crashes and OOM kills the way shells do, as 128 + the signal number
+        finish({
+          stdout: stdout.toString(),
+          stderr: appendLine(stderr.toString(), `Killed by ${exitSignal}`),
+          exitCode: 128 + (constants.signals[exitSignal] ?? 0),
+        });
+        return;
+      }
+
+      finish({
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        exitCode: code ?? 0,
       });
     });
 
     proc.on('error', err => {
-      clearTimeout(timeoutHandle);
-      resolve({
-        stdout,
+      finish({
+        stdout: stdout.toString(),
         stderr: err.message,
         exitCode: -1,
       });
     });
   });
 }
+
+/**
+ * Signal the process and everything it spawned. Processes are started as group leaders
+ * (detached) on POSIX, so the negative pid addresses the whole group.
+ */
+export function killProcessGroup(proc: ChildProcess, signal: 'SIGTERM' | 'SIGKILL'): void {
+  if (proc.pid === undefined) return;
+
+  try {
+    if (process.platform === 'win32') {
+      proc.kill(signal);
+    } else {
+      process.kill(-proc.pid, signal);
+    }
+  } catch {
+    // The process group has already exited
+  }
+}
+
+function createOutputBuffer(maxBytes: number) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let discarded = 0;
+
+  return {
+    append(data: Buffer): void {
+      const kept = data.subarray(0, Math.max(maxBytes - size, 0));
+      if (kept.length > 0) {
+        chunks.push(kept);
+        size += kept.length;
+      }
+      discarded += data.length - kept.length;
+    },
+
+    toString(): string {
+      const text = Buffer.concat(chunks).toString();
+      return discarded > 0 ? appendLine(text, `[${discarded} bytes discarded]`) : text;
+    },
+  };
+}
+
+function appendLine(text: string, line: string): string {
+  return text && !text.endsWith('\n') ? `${text}\n${line}` : `${text}${line}`;
+}
@@ -0,0 +1,132 @@
+/**
+ * Redaction of secrets from command output before it is returned to the client
+ */
+
+import { CommandResult } from '../types/cli.js';
+import { ServerConfig } from '../types/config.js';
+
+export type Redactor = (text: string) => string;
+
+export interface SecretDetector {
+  /** Label used in the placeholder */
+  name: string;
+  /** Global pattern; only the matched text is replaced, so context can sit in a lookbehind */
+  pattern: RegExp;
+}
+
+export const BUILT_IN_DETECTORS: SecretDetector[] = [
+  {
+    name: 'PRIVATE_KEY',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { name: 'AWS_ACCESS_KEY', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: 'AWS_SECRET_KEY',
+    pattern: /(?<=aws_secret_access_key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi,
+  },
+  {
+    name: 'GITHUB_TOKEN',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+  },
+  { name: 'JWT', pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  { name: 'BEARER_TOKEN', pattern: /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]+=*/gi },
+];
+
+/** Shorter values match too much unrelated output to be worth redacting */
+export const MIN_SECRET_LENGTH = 4;
+
+/**
+ * Create a redactor that replaces each known secret value with a placeholder naming its source,
+ * e.g. `[REDACTED:GITHUB_TOKEN]`
+ */
+export function createValueRedactor(secrets: Record<string, string>): Redactor {
+  const entries = Object.entries(secrets)
+    .filter(([, value]) => value.length >= MIN_SECRET_LENGTH)
+    // Longer values first so a secret containing another is replaced whole
+    .sort(([, a], [, b]) => b.length - a.length);
+
+  if (entries.length === 0) {
+    return text => text;
+  }
+
+  return text =>
+    entries.reduce(
+      (redacted, [name, value]) => redacted.split(value).join(`[REDACTED:${name}]`),
+      text
+    );
+}
+
+/**
+ * Create a redactor that replaces matches of each detector with a placeholder naming it
+ */
+export function createPatternRedactor(detectors: SecretDetector[]): Redactor {
+  return text =>
+    detectors.reduce(
+      (redacted, { name, pattern }) => redacted.replace(pattern, `[REDACTED:${name}]`),
+      text
+    );
+}
+
+/**
+ * Detectors for a server: the built-in ones (unless `builtInDetectors` is false) followed by
+ * the configured `redactPatterns`
+ */
+export function getSecretDetectors(config: ServerConfig): SecretDetector[] {
+  const custom = Object.entries(config.redactPatterns || {}).map(([name, source]) => ({
+    name,
+    pattern: new RegExp(source, 'g'),
+  }));
+
+  return [...(config.builtInDetectors === false ? [] : BUILT_IN_DETECTORS), ...custom];
+}
+
+/**
+ * Apply redactors in order
+ */
+export function composeRedactors(...redactors: Redactor[]): Redactor {
+  return text => redactors.reduce((redacted, redact) => redact(redacted), text);
+}
+
+const UNTERMINATED_PRIVATE_KEY =
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----(?![\s\S]*-----END [A-Z ]*PRIVATE KEY-----)/;
+
+/** Output held back waiting for a line end before it is released anyway */
+export const MAX_PENDING_OUTPUT = 64 * 1024;
+
+/**
+ * How much of partial output can be redacted on its own: up to the last line end, and not into
+ * a private key block that has not ended yet. Secrets split across chunks are held back whole.
+ */
+export function findRedactableEnd(text: string): number {
+  const end = text.lastIndexOf('\n') + 1;
+  const openKey = UNTERMINATED_PRIVATE_KEY.exec(text.slice(0, end));
+  return openKey ? openKey.index : end;
+}
+
+/**
+ * Create a redactor for output arriving in chunks. Each call returns the redacted text that can
+ * be released so far and holds the rest for the next chunk.
+ */
+export function createStreamRedactor(redact: Redactor): Redactor {
+  let pending = '';
+
+  return chunk => {
+    pending += chunk;
+    let end = findRedactableEnd(pending);
+    if (end === 0 && pending.length > MAX_PENDING_OUTPUT) {
+      end = pending.length;
+    }
+
+    const released = pending.slice(0, end);
+    pending = pending.slice(end);
+    return released && redact(released);
+  };
+}
+
+export function redactCommandResult(result: CommandResult, redact: Redactor): CommandResult {
+  return {
+    ...result,
+    stdout: redact(result.stdout),
+    stderr: redact(result.stderr),
+  };
+}
@@ -3,19 +3,43 @@
  */
 
 import { CommandResult } from '../types/cli.js';
+import { OutputPage } from './outputLimiter.js';
+import { JobOutput, JobStatus } from './jobManager.js';
 
-export interface McpResponse {
+export interface McpResponse<T extends Record<string, unknown> = CommandOutput> {
   [x: string]: unknown;
   content: Array<{
     type: 'text';
     text: string;
   }>;
+  structuredContent?: T;
+  isError?: boolean;
 }
 
+export interface CommandOutput {
+  [x: string]: unknown;
+  stdout?: string;
+  json?: unknown;
+  jsonError?: string;
+  stderr: string;
+  exitCode: number;
+  durationMs: number;
+  argv: string[];
+  timedOut?: boolean;
+  cancelled?: boolean;
+  outputId?: string;
+}
+
+export const DEFAULT_SUCCESS_EXIT_CODES = [0];
+
 /**
- * Format a command execution result into an MCP response
+ * Format a command execution result into an MCP response. The text block serves clients
+ * without structured content support; exit codes outside `successExitCodes` mark an error.
  */
-export function formatCommandResponse(result: CommandResult): McpResponse {
+export function formatCommandResponse(
+  result: CommandResult,
+  successExitCodes: number[] = DEFAULT_SUCCESS_EXIT_CODES
+): McpResponse {
   let content = '';
 
   if (result.stdout) {
@@ -31,22 +55,121 @@ export function formatCommandResponse(result: CommandResult): McpResponse {
   }
 
   return {
+    isError: !successExitCodes.includes(result.exitCode),
     content: [
       {
         type: 'text' as const,
         text: content || 'Command completed successfully with no output.',
       },
     ],
+    structuredContent: {
+      ...stdoutContent(result.stdout, result.outputId),
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      durationMs: result.durationMs ?? 0,
+      argv: result.argv ?? [],
+      ...(result.timedOut && { timedOut: true }),
+      ...(result.cancelled && { cancelled: true }),
+      ...(result.outputId && { outputId: result.outputId }),
+    },
+  };
+}
+
+/**
+ * Return JSON stdout parsed under `json` instead of as raw text. Truncated output cannot be
+ * parsed, so the failure is reported along with the id to read it in full.
+ */
+function stdoutContent(
+  stdout: string,
+  outputId?: string
+): Pick<CommandOutput, 'stdout' | 'json' | 'jsonError'> {
+  const trimmed = stdout.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return { stdout };
+  }
+
+  try {
+    return { json: JSON.parse(trimmed) };
+  } catch {
+    if (!outputId) return { stdout };
+
+    return {
+      stdout,
+      jsonError:
+        'Output exceeded the size limit and was truncated, so it could not be parsed as JSON; ' +
+        `call get_output with id "${outputId}" to read it in full`,
+    };
+  }
+}
+
+/**
+ * Format a page of stored output into an MCP response
+ */
+export function formatOutputPageResponse(page: OutputPage): McpResponse {
+  const end = page.nextOffset ?? page.totalBytes;
+  let footer = `[bytes ${page.offset}-${end} of ${page.totalBytes}`;
+  footer += page.nextOffset !== null ? `; next offset ${page.nextOffset}]` : '; end of output]';
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `${page.text}\n\n${footer}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Format the status of a background job into an MCP response
+ */
+export function formatJobStatusResponse(status: JobStatus): McpResponse<{ [x: string]: unknown }> {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(status, null, 2),
+      },
+    ],
+    structuredContent: { ...status },
+  };
+}
+
+/**
+ * Format incremental background job output into an MCP response
+ */
+export function formatJobOutputResponse(output: JobOutput): McpResponse<{ [x: string]: unknown }> {
+  let content = output.stdout;
+
+  if (output.stderr) {
+    content += (content ? '\n\nErrors:\n' : '') + output.stderr;
+  }
+
+  const state = output.running ? 'running' : `exited with code ${output.exitCode}`;
+  content +=
+    `\n\n[job ${output.id} ${state}; next stdoutOffset ${output.stdoutOffset}, ` +
+    `stderrOffset ${output.stderrOffset}]`;
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: content.trimStart(),
+      },
+    ],
+    structuredContent: { ...output },
   };
 }
 
 /**
- * Format an error into an MCP response
+ * Format an error into an MCP response. Marked as an error so clients (and output schema
+ * validation) do not expect structured content.
  */
 export function formatErrorResponse(error: unknown): McpResponse {
   const message = error instanceof Error ? error.message : String(error);
 
   return {
+    isError: true,
     content: [
       {
         type: 'text' as const,
@@ -0,0 +1,22 @@
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { ServerConfig } from '../types/config.js';
+import { isIdempotentCommand } from './commandClassifier.js';
+import { getToolAccess, isToolDestructive, resolveToolConfig } from './policy.js';
+
+/**
+ * Infer MCP tool annotations from the tool path and help text, applying per-tool overrides
+ */
+export function getToolAnnotations(
+  config: ServerConfig,
+  toolName: string,
+  description?: string
+): ToolAnnotations {
+  const readOnly = getToolAccess(config, toolName, description) === 'read';
+
+  return {
+    readOnlyHint: readOnly,
+    destructiveHint: !readOnly && isToolDestructive(config, toolName, description),
+    idempotentHint: isIdempotentCommand(toolName, description),
+    ...resolveToolConfig(config, toolName).annotations,
+  };
+}
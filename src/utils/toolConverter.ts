@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { CliCommand, McpTool } from '../types/cli.js';
+import { ArgumentMapping, CliCommand, CliOption, McpTool } from '../types/cli.js';
 import { toCamelCase } from './parsingHelpers.js';
 
 export function convertCommandToTools(
@@ -16,6 +16,8 @@ export function convertCommandToTools(
       name: baseCommand,
       description: command.description || `Execute ${baseCommand} command`,
       inputSchema: createInputSchema(command),
+      jsonOutputArgs: detectJsonOutputArgs(command.options),
+      argumentMap: createArgumentMap(command),
     };
     tools.push(tool);
     seenNames.add(baseCommand);
@@ -26,6 +28,8 @@ export function convertCommandToTools(
         name: toolName,
         description: command.description || `Execute ${toolName} command`,
         inputSchema: createInputSchema(command),
+        jsonOutputArgs: detectJsonOutputArgs(command.options),
+        argumentMap: createArgumentMap(command),
       };
       tools.push(tool);
       seenNames.add(toolName);
@@ -50,6 +54,34 @@ export function convertCommandToTools(
   return tools;
 }
 
+const OUTPUT_FORMAT_OPTIONS = ['--output', '--format', '--output-format', '--out'];
+
+/**
+ * Find the option that makes the command print JSON: a `--json` switch, or an output/format
+ * option whose help mentions json (`-o json`, `--format json`)
+ */
+export function detectJsonOutputArgs(options: CliOption[]): string[] | undefined {
+  const jsonSwitch = options.find(
+    option => (option.name === '--json' || option.name === '-json') && !option.valueRequired
+  );
+  if (jsonSwitch) {
+    return [jsonSwitch.name];
+  }
+
+  const formatOption = options.find(
+    option =>
+      option.valueRequired &&
+      (OUTPUT_FORMAT_OPTIONS.includes(option.name) || option.shortName === '-o') &&
+      (option.choices?.includes('json') || /\bjson\b/i.test(option.description))
+  );
+
+  if (!formatOption) return undefined;
+
+  if (formatOption.syntax === 'equals') return [`${formatOption.name}=json`];
+  if (formatOption.syntax === 'attached') return [`${formatOption.name}json`];
+  return [formatOption.name, 'json'];
+}
+
 function createInputSchema(command: CliCommand): Record<string, unknown> {
   const properties: Record<string, unknown> = {};
   const required: string[] = [];
@@ -60,7 +92,9 @@ function createInputSchema(command: CliCommand): Record<string, unknown> {
 
   for (const arg of command.arguments) {
     const propName = toCamelCase(arg.name);
-    properties[propName] = createPropertyDefinition('string', arg.description);
+    properties[propName] = arg.variadic
+      ? { type: 'array', items: { type: 'string' }, description: arg.description }
+      : createPropertyDefinition('string', arg.description);
 
     if (arg.required) {
       required.push(propName);
@@ -74,25 +108,103 @@ function createInputSchema(command: CliCommand): Record<string, unknown> {
   };
 }
 
-function addOptionToSchema(
-  properties: Record<string, unknown>,
-  option: { name: string; shortName?: string; description: string; valueRequired: boolean }
-): void {
-  const propName = toCamelCase(option.name.replace(/^--/, ''));
-  const type = option.valueRequired ? 'string' : 'boolean';
+/**
+ * Map each schema property to the flag or positional slot it came from. Property names are
+ * derived exactly as in `createInputSchema`, so later entries win the same collisions.
+ */
+export function createArgumentMap(command: CliCommand): Record<string, ArgumentMapping> {
+  const map: Record<string, ArgumentMapping> = {};
+
+  for (const option of command.options) {
+    const { valueRequired, defaultValue, negation, syntax, shortSyntax } = option;
+    const shared = {
+      valueRequired,
+      ...(defaultValue !== undefined && { defaultValue }),
+      ...(negation && { negation }),
+    };
+    map[toCamelCase(option.name.replace(/^--?/, ''))] = {
+      type: 'option',
+      flag: option.name,
+      ...shared,
+      ...(syntax && { syntax }),
+    };
+
+    // `-w=80` is not `-w 80`: the equals syntax belongs to the long name only
+    if (option.shortName) {
+      map[option.shortName.replace(/^-/, '')] = {
+        type: 'option',
+        flag: option.shortName,
+        ...shared,
+        ...(shortSyntax && { syntax: shortSyntax }),
+      };
+    }
 
-  properties[propName] = createPropertyDefinition(type, option.description);
+    if (option.negationShortName) {
+      map[option.negationShortName.replace(/^-/, '')] = {
+        type: 'option',
+        flag: option.negationShortName,
+        valueRequired: false,
+      };
+    }
+  }
+
+  command.arguments.forEach((arg, index) => {
+    map[toCamelCase(arg.name)] = { type: 'positional', index };
+  });
+
+  return map;
+}
+
+function addOptionToSchema(properties: Record<string, unknown>, option: CliOption): void {
+  const propName = toCamelCase(option.name.replace(/^--?/, ''));
+
+  properties[propName] = createOptionProperty(option, option.description);
 
   if (option.shortName) {
     const shortPropName = option.shortName.replace(/^-/, '');
-    properties[shortPropName] = createPropertyDefinition(type, `Alias for ${propName}`);
+    properties[shortPropName] = createOptionProperty(option, `Alias for ${propName}`);
+  }
+
+  if (option.negationShortName) {
+    properties[option.negationShortName.replace(/^-/, '')] = createPropertyDefinition(
+      'boolean',
+      `Alias for ${propName} set to false (${option.negation})`
+    );
   }
 }
 
+/**
+ * Schema for an option's value: a boolean switch, a number, a string or one of its choices,
+ * and an array of those when the option can be repeated. Defaults from the help text are kept.
+ */
+function createOptionProperty(option: CliOption, description: string): Record<string, unknown> {
+  const defaultValue = option.defaultValue !== undefined && { default: option.defaultValue };
+
+  if (!option.valueRequired) {
+    return { ...createPropertyDefinition('boolean', description), ...defaultValue };
+  }
+
+  const item = option.choices
+    ? { type: 'string', enum: option.choices }
+    : { type: option.valueType ?? 'string' };
+
+  return option.repeatable
+    ? { type: 'array', items: item, description, ...defaultValue }
+    : { ...item, description, ...defaultValue };
+}
+
 function createPropertyDefinition(type: string, description: string): Record<string, unknown> {
   return { type, description };
 }
 
+interface PropertyDefinition {
+  type?: string;
+  description?: string;
+  enum?: string[];
+  items?: PropertyDefinition;
+  default?: unknown;
+}
+
 export function createZodSchema(
   inputSchema: Record<string, unknown>
 ): z.ZodObject<Record<string, z.ZodTypeAny>> {
@@ -100,10 +212,12 @@ export function createZodSchema(
 
   if (inputSchema.properties) {
     for (const [key, propUnknown] of Object.entries(inputSchema.properties)) {
-      const prop = propUnknown as { type?: string; description?: string };
-      let schema = createZodType(prop.type, prop.description || '');
+      const prop = propUnknown as PropertyDefinition;
+      let schema = createZodType(prop);
 
-      if (!inputSchema.required?.includes(key)) {
+      if (prop.default !== undefined) {
+        schema = schema.default(prop.default);
+      } else if (!inputSchema.required?.includes(key)) {
         schema = schema.optional();
       }
 
@@ -114,12 +228,15 @@ export function createZodSchema(
   return z.object(shape);
 }
 
-function createZodType(type: string | undefined, description: string): z.ZodTypeAny {
-  const desc = (schema: z.ZodTypeAny) => schema.describe(description);
+function createZodType(prop: PropertyDefinition): z.ZodTypeAny {
+  const desc = (schema: z.ZodTypeAny) =>
+    prop.description ? schema.describe(prop.description) : schema;
 
-  switch (type) {
+  switch (prop.type) {
     case 'string':
-      return desc(z.string());
+      return desc(prop.enum?.length ? z.enum(prop.enum as [string, ...string[]]) : z.string());
+    case 'array':
+      return desc(z.array(prop.items ? createZodType(prop.items) : z.any()));
     case 'boolean':
       return desc(z.boolean());
     case 'number':
@@ -100,4 +100,50 @@ describe('parseArgs', () => {
       expect(result.cacheFile).toBe('git_cache.json');
     });
   });
+
+  describe('server options', () => {
+    it('should default to no config file', () => {
+      expect(parseArgs(['git']).configFile).toBe(null);
+    });
+
+    it('should extract --config anywhere before the command', () => {
+      const result = parseArgs(['--config', 'policy.json', 'gh']);
+
+      expect(result.command).toBe('gh');
+      expect(result.configFile).toBe('policy.json');
+    });
+
+    it('should extract --config alongside a cache file', () => {
+      const result = parseArgs(['gh_cache.json', '--config', 'policy.json']);
+
+      expect(result.cacheFile).toBe('gh_cache.json');
+      expect(result.configFile).toBe('policy.json');
+    });
+
+    it('should detect --read-only', () => {
+      expect(parseArgs(['kubectl']).readOnly).toBe(false);
+
+      const result = parseArgs(['kubectl', '--read-only']);
+      expect(result.command).toBe('kubectl');
+      expect(result.readOnly).toBe(true);
+    });
+
+    it('should parse --timeout in milliseconds', () => {
+      expect(parseArgs(['terraform']).timeoutMs).toBe(null);
+      expect(parseArgs(['terraform', '--timeout', '300000']).timeoutMs).toBe(300000);
+      expect(parseArgs(['terraform', '--timeout', 'soon']).timeoutMs).toBe(null);
+    });
+
+    it('should detect --no-execute', () => {
+      expect(parseArgs(['kubectl']).noExecute).toBe(false);
+      expect(parseArgs(['kubectl', '--no-execute']).noExecute).toBe(true);
+    });
+
+    it('should leave --config after --cache-build to the cached command', () => {
+      const result = parseArgs(['--cache-build', 'mycli', '--config', 'x']);
+
+      expect(result.command).toBe('mycli --config x');
+      expect(result.configFile).toBe(null);
+    });
+  });
 });
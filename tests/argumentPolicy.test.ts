@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertArgumentsPermitted,
+  findArgumentViolation,
+  resolveArgumentRules,
+} from '../src/utils/argumentPolicy.js';
+import { PolicyViolationError } from '../src/utils/policy.js';
+import { ServerConfig } from '../src/types/config.js';
+
+const config: ServerConfig = {
+  tools: {
+    '*': { forbidFlags: ['--force'], forbidValues: ['/^\\/+$/', '~'] },
+    '*delete': { forbidFlags: ['--all-namespaces', '-A'] },
+    apply: { requireFlags: ['--dry-run'] },
+    rm: { forbidFlags: ['-f'] },
+  },
+};
+
+describe('Argument policy', () => {
+  describe('resolveArgumentRules', () => {
+    it('should accumulate rules from every matching entry', () => {
+      expect(resolveArgumentRules(config, 'delete')).toEqual({
+        forbidFlags: ['--force', '--all-namespaces', '-A'],
+        requireFlags: [],
+        forbidValues: ['/^\\/+$/', '~'],
+      });
+    });
+  });
+
+  describe('findArgumentViolation', () => {
+    it('should allow arguments that break no rule', () => {
+      expect(findArgumentViolation(config, 'delete', ['delete', 'pod', 'web'])).toBeNull();
+    });
+
+    it('should reject forbidden flags, including with a value', () => {
+      expect(findArgumentViolation(config, 'delete', ['delete', 'pods', '-A'])).toBe(
+        "Tool 'delete' does not allow '-A'"
+      );
+      expect(findArgumentViolation(config, 'push', ['push', '--force=true'])).toBe(
+        "Tool 'push' does not allow '--force=true'"
+      );
+    });
+
+    it('should find single-letter flags inside grouped short flags', () => {
+      expect(findArgumentViolation(config, 'rm', ['-rf', 'build'])).toBe(
+        "Tool 'rm' does not allow '-rf'"
+      );
+      expect(findArgumentViolation(config, 'rm', ['-r', 'build'])).toBeNull();
+    });
+
+    it('should end a group of short flags at a known flag that takes a value', () => {
+      const argumentMap = {
+        o: { type: 'option' as const, flag: '-o', valueRequired: true },
+        r: { type: 'option' as const, flag: '-r', valueRequired: false },
+      };
+
+      expect(findArgumentViolation(config, 'rm', ['-ofile'], argumentMap)).toBeNull();
+      expect(findArgumentViolation(config, 'rm', ['-rf'], argumentMap)).toBe(
+        "Tool 'rm' does not allow '-rf'"
+      );
+      // Without knowing -o, its value could hide -f
+      expect(findArgumentViolation(config, 'rm', ['-ofile'])).toBe(
+        "Tool 'rm' does not allow '-ofile'"
+      );
+    });
+
+    it('should reject abbreviations of forbidden long flags', () => {
+      expect(findArgumentViolation(config, 'push', ['push', '--forc'])).toBe(
+        "Tool 'push' does not allow '--forc'"
+      );
+      expect(findArgumentViolation(config, 'push', ['push', '--fo=true'])).toBe(
+        "Tool 'push' does not allow '--fo=true'"
+      );
+      expect(
+        findArgumentViolation(config, 'push', ['push', '--for'], {
+          for: { type: 'option', flag: '--for', valueRequired: false },
+        })
+      ).toBeNull();
+    });
+
+    it('should require flags', () => {
+      expect(findArgumentViolation(config, 'apply', ['apply', '-f', 'app.yaml'])).toBe(
+        "Tool 'apply' requires '--dry-run'"
+      );
+      expect(
+        findArgumentViolation(config, 'apply', ['apply', '-f', 'app.yaml', '--dry-run=server'])
+      ).toBeNull();
+    });
+
+    it('should reject forbidden values in positionals and flag values', () => {
+      expect(findArgumentViolation(config, 'rm', ['-r', '/'])).toBe(
+        "Tool 'rm' does not allow the value '/' (matches '/^\\/+$/')"
+      );
+      expect(findArgumentViolation(config, 'cp', ['--target=~'])).toBe(
+        "Tool 'cp' does not allow the value '~' (matches '~')"
+      );
+    });
+
+    it('should treat everything after -- as values', () => {
+      expect(findArgumentViolation(config, 'rm', ['--', '--force'])).toBeNull();
+      expect(findArgumentViolation(config, 'rm', ['--', '//'])).toMatch(/does not allow the value/);
+    });
+  });
+
+  describe('assertArgumentsPermitted', () => {
+    it('should throw a policy violation', () => {
+      expect(() => assertArgumentsPermitted(config, 'push', ['push', '--force'])).toThrow(
+        PolicyViolationError
+      );
+      expect(() => assertArgumentsPermitted(config, 'push', ['push'])).not.toThrow();
+    });
+  });
+});
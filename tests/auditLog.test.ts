@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLog } from '../src/utils/auditLog.js';
+import { CommandResult } from '../src/types/cli.js';
+
+const result: CommandResult = {
+  stdout: 'pod/web created\n',
+  stderr: '',
+  exitCode: 0,
+  argv: ['kubectl', 'apply', '-f', '-'],
+  durationMs: 42,
+};
+
+function readEntries(file: string) {
+  return readFileSync(file, 'utf-8')
+    .trim()
+    .split('\n')
+    .map(line => JSON.parse(line));
+}
+
+describe('AuditLog', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-test-'));
+    file = join(dir, 'logs', 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per execution', () => {
+    const log = new AuditLog({ file });
+
+    log.record({ tool: 'apply', params: { filename: '-' } }, result, '/srv/app');
+    log.record({ tool: 'execute', params: { command: 'get pods' } }, result, '/srv/app');
+
+    const entries = readEntries(file);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toEqual({
+      timestamp: expect.any(String),
+      event: 'exit',
+      tool: 'apply',
+      params: { filename: '-' },
+      argv: ['kubectl', 'apply', '-f', '-'],
+      cwd: '/srv/app',
+      exitCode: 0,
+      durationMs: 42,
+      stdoutBytes: 16,
+      stderrBytes: 0,
+    });
+    expect(entries[1].tool).toBe('execute');
+  });
+
+  it('should write a start entry linked to the exit entry', () => {
+    const log = new AuditLog({ file });
+    const context = { tool: 'apply', params: { filename: '-' } };
+
+    const id = log.start(context, ['kubectl', 'apply', '-f', '-'], '/srv/app');
+
+    expect(readEntries(file)).toEqual([
+      {
+        timestamp: expect.any(String),
+        event: 'start',
+        id,
+        tool: 'apply',
+        params: { filename: '-' },
+        argv: ['kubectl', 'apply', '-f', '-'],
+        cwd: '/srv/app',
+      },
+    ]);
+
+    log.record(context, result, '/srv/app', id);
+
+    expect(readEntries(file)[1]).toMatchObject({ event: 'exit', id, exitCode: 0 });
+  });
+
+  it('should record output hashes when enabled', () => {
+    const log = new AuditLog({ file, hashOutput: true });
+
+    log.record({ tool: 'apply', params: {} }, result, '/');
+
+    const [entry] = readEntries(file);
+    expect(entry.stdoutSha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(entry.stderrSha256).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+  });
+
+  it('should flag timed out and cancelled commands', () => {
+    const log = new AuditLog({ file });
+
+    log.record({ tool: 'logs', params: {} }, { ...result, exitCode: -1, timedOut: true }, '/');
+
+    expect(readEntries(file)[0]).toMatchObject({ exitCode: -1, timedOut: true });
+  });
+
+  it('should rotate the log when it would exceed the size limit', () => {
+    const log = new AuditLog({ file, maxBytes: 300, maxFiles: 2 });
+
+    for (let i = 0; i < 6; i++) {
+      log.record({ tool: `tool-${i}`, params: {} }, result, '/');
+    }
+
+    expect(readEntries(file).map(entry => entry.tool)).toEqual(['tool-5']);
+    expect(readEntries(`${file}.1`).map(entry => entry.tool)).toEqual(['tool-4']);
+    expect(readEntries(`${file}.2`).map(entry => entry.tool)).toEqual(['tool-3']);
+    expect(existsSync(`${file}.3`)).toBe(false);
+  });
+});
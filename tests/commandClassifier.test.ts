@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyCommandAccess,
+  isDestructiveCommand,
+  isIdempotentCommand,
+} from '../src/utils/commandClassifier.js';
+
+describe('classifyCommandAccess', () => {
+  it('should classify inspection verbs as read', () => {
+    expect(classifyCommandAccess('get')).toBe('read');
+    expect(classifyCommandAccess('repo-list')).toBe('read');
+    expect(classifyCommandAccess('auth-status')).toBe('read');
+    expect(classifyCommandAccess('pr-view')).toBe('read');
+  });
+
+  it('should classify mutating verbs as write', () => {
+    expect(classifyCommandAccess('apply')).toBe('write');
+    expect(classifyCommandAccess('repo-delete')).toBe('write');
+    expect(classifyCommandAccess('image-prune')).toBe('write');
+    expect(classifyCommandAccess('push')).toBe('write');
+  });
+
+  it('should use the last recognised verb in the path', () => {
+    expect(classifyCommandAccess('secret-set-list')).toBe('read');
+    expect(classifyCommandAccess('config-get-delete')).toBe('write');
+    expect(classifyCommandAccess('release-view-assets')).toBe('read');
+  });
+
+  it('should treat unknown verbs as write', () => {
+    expect(classifyCommandAccess('kubectl')).toBe('write');
+    expect(classifyCommandAccess('config-frobnicate')).toBe('write');
+  });
+
+  it('should fall back to the first word of the description', () => {
+    expect(classifyCommandAccess('pods', 'List pods in a namespace')).toBe('read');
+    expect(classifyCommandAccess('containers', 'Shows running containers')).toBe('read');
+    expect(classifyCommandAccess('ns', 'Manage namespaces')).toBe('write');
+    expect(classifyCommandAccess('repo-create', 'List of options')).toBe('write');
+  });
+
+  it('should treat descriptions mentioning a write verb as write', () => {
+    expect(classifyCommandAccess('config', 'Get and set repository or global options')).toBe(
+      'write'
+    );
+    expect(classifyCommandAccess('pods', 'List pods and delete the finished ones')).toBe('write');
+  });
+
+  it('should be case insensitive', () => {
+    expect(classifyCommandAccess('Repo-LIST')).toBe('read');
+  });
+});
+
+describe('isDestructiveCommand', () => {
+  it('should flag removal verbs', () => {
+    expect(isDestructiveCommand('repo-delete')).toBe(true);
+    expect(isDestructiveCommand('rm')).toBe(true);
+    expect(isDestructiveCommand('system-prune')).toBe(true);
+  });
+
+  it('should not flag other writes or reads', () => {
+    expect(isDestructiveCommand('repo-create')).toBe(false);
+    expect(isDestructiveCommand('pods-list')).toBe(false);
+    expect(isDestructiveCommand('deploy')).toBe(false);
+  });
+
+  it('should use the last recognised verb in the path', () => {
+    expect(isDestructiveCommand('delete-list')).toBe(false);
+  });
+});
+
+describe('isIdempotentCommand', () => {
+  it('should treat reads and convergent writes as idempotent', () => {
+    expect(isIdempotentCommand('pods-get')).toBe(true);
+    expect(isIdempotentCommand('apply')).toBe(true);
+    expect(isIdempotentCommand('repo-delete')).toBe(true);
+  });
+
+  it('should not treat accumulating writes as idempotent', () => {
+    expect(isIdempotentCommand('issue-create')).toBe(false);
+    expect(isIdempotentCommand('push')).toBe(false);
+    expect(isIdempotentCommand('frobnicate')).toBe(false);
+  });
+});
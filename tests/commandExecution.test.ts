@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { executeCommand } from '../src/utils/commandExecutor.js';
+import { buildCommandArgs, executeCommand } from '../src/utils/commandExecutor.js';
 import { getCommandHelp } from '../src/utils/helpParser.js';
+import { AuditLog } from '../src/utils/auditLog.js';
+import { ArgumentMapping } from '../src/types/cli.js';
 
 vi.mock('../src/utils/processUtils.js', () => ({
   runProcess: vi.fn(),
@@ -9,6 +11,16 @@ vi.mock('../src/utils/processUtils.js', () => ({
 import { runProcess } from '../src/utils/processUtils.js';
 const mockRunProcess = vi.mocked(runProcess);
 
+/** Map every parameter to a `--name` option, the way parsed options are mapped */
+function mapAsOptions(args: Record<string, unknown>): Record<string, ArgumentMapping> {
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [
+      key,
+      { type: 'option', flag: `--${key}`, valueRequired: typeof value !== 'boolean' },
+    ])
+  );
+}
+
 describe('Command Execution Failure Cases', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -41,9 +53,9 @@ describe('Command Execution Failure Cases', () => {
         exitCode: 2,
       });
 
-      const result = await executeCommand('ls', 'invalid-flags', {
-        'nonexistent-flag': true,
-        'another-bad-flag': 'value',
+      const args = { 'nonexistent-flag': true, 'another-bad-flag': 'value' };
+      const result = await executeCommand('ls', 'invalid-flags', args, {
+        argumentMap: mapAsOptions(args),
       });
 
       expect(result).toBeDefined();
@@ -59,13 +71,16 @@ describe('Command Execution Failure Cases', () => {
         redirect: '> /dev/null; cat /etc/passwd',
       };
 
-      const result = await executeCommand('echo', 'security-test', maliciousArgs);
+      const result = await executeCommand('echo', 'security-test', maliciousArgs, {
+        argumentMap: mapAsOptions(maliciousArgs),
+      });
 
       expect(result).toBeDefined();
       expect(result.exitCode).toBeDefined();
       expect(mockRunProcess).toHaveBeenCalledWith(
         'echo',
-        expect.arrayContaining(['security', 'test'])
+        expect.arrayContaining(['security', 'test']),
+        {}
       );
     });
 
@@ -109,17 +124,58 @@ describe('Command Execution Failure Cases', () => {
         'flag-only': true,
       };
 
-      const result = await executeCommand('echo', 'mixed-args', mixedArgs);
+      const result = await executeCommand('echo', 'mixed-args', mixedArgs, {
+        argumentMap: mapAsOptions(mixedArgs),
+      });
 
       expect(result).toBeDefined();
       expect(mockRunProcess).toHaveBeenCalledWith(
         'echo',
-        expect.arrayContaining(['mixed', 'args', '--verbose'])
+        expect.arrayContaining(['mixed', 'args', '--verbose']),
+        {}
       );
     });
 
+    it('should pass execution options through to the process', async () => {
+      await executeCommand('sleep', '', { _raw: ['60'] }, { timeout: 120000 });
+
+      expect(mockRunProcess).toHaveBeenCalledWith('sleep', ['60'], { timeout: 120000 });
+    });
+
+    it('should append extra arguments after the tool parameters', async () => {
+      await executeCommand(
+        'kubectl',
+        'get',
+        { pods: true },
+        { appendArgs: ['-o', 'json'], argumentMap: mapAsOptions({ pods: true }) }
+      );
+
+      expect(mockRunProcess).toHaveBeenCalledWith('kubectl', ['get', '--pods', '-o', 'json'], {});
+    });
+
+    it('should record the execution in the audit log without passing it to the process', async () => {
+      const log = { start: vi.fn(() => 'audit-id'), record: vi.fn() };
+      const audit = { log: log as unknown as AuditLog, tool: 'get', params: { pods: true } };
+
+      const result = await executeCommand(
+        'kubectl',
+        'get',
+        { pods: true },
+        { audit, cwd: '/srv', argumentMap: mapAsOptions({ pods: true }) }
+      );
+
+      expect(mockRunProcess).toHaveBeenCalledWith('kubectl', ['get', '--pods'], { cwd: '/srv' });
+      expect(log.start).toHaveBeenCalledWith(audit, ['kubectl', 'get', '--pods'], '/srv');
+      expect(log.record).toHaveBeenCalledWith(audit, result, '/srv', 'audit-id');
+    });
+
     it('should handle tool names with special characters', async () => {
-      const result = await executeCommand('echo', 'test-@#$%-tool', { message: 'test' });
+      const result = await executeCommand(
+        'echo',
+        'test-@#$%-tool',
+        { message: 'test' },
+        { argumentMap: mapAsOptions({ message: 'test' }) }
+      );
 
       expect(result).toBeDefined();
     });
@@ -134,7 +190,12 @@ describe('Command Execution Failure Cases', () => {
 
     it('should handle concurrent command executions', async () => {
       const promises = Array.from({ length: 10 }, (_, i) =>
-        executeCommand('echo', 'concurrent', { message: `test${i}` })
+        executeCommand(
+          'echo',
+          'concurrent',
+          { message: `test${i}` },
+          { argumentMap: mapAsOptions({ message: '' }) }
+        )
       );
 
       const results = await Promise.all(promises);
@@ -155,12 +216,136 @@ describe('Command Execution Failure Cases', () => {
         combined: '🚀 Hello 世界 مرحبا Привет',
       };
 
-      const result = await executeCommand('echo', 'unicode-test', unicodeArgs);
+      const result = await executeCommand('echo', 'unicode-test', unicodeArgs, {
+        argumentMap: mapAsOptions(unicodeArgs),
+      });
 
       expect(result).toBeDefined();
     });
   });
 
+  describe('Argument map', () => {
+    const argumentMap: Record<string, ArgumentMapping> = {
+      output: { type: 'option', flag: '--output', valueRequired: true },
+      o: { type: 'option', flag: '-o', valueRequired: true },
+      force: { type: 'option', flag: '--force', valueRequired: false },
+      NAME: { type: 'positional', index: 0 },
+      target: { type: 'positional', index: 1 },
+    };
+
+    it('should pass mapped options as their flags and positionals as bare values', () => {
+      expect(
+        buildCommandArgs('tool', 'copy', { output: 'out.txt', NAME: 'a', force: true }, argumentMap)
+      ).toEqual(['copy', '--output', 'out.txt', '--force', 'a']);
+    });
+
+    it('should order positionals by index after all options', () => {
+      expect(
+        buildCommandArgs('tool', 'copy', { target: 'b', NAME: 'a', o: 'x' }, argumentMap, ['-v'])
+      ).toEqual(['copy', '-o', 'x', '-v', 'a', 'b']);
+    });
+
+    it('should omit switches set to false', () => {
+      expect(buildCommandArgs('tool', 'copy', { force: false }, argumentMap)).toEqual(['copy']);
+    });
+
+    it('should separate positionals that look like flags', () => {
+      expect(buildCommandArgs('tool', 'copy', { NAME: '-1' }, argumentMap)).toEqual([
+        'copy',
+        '--',
+        '-1',
+      ]);
+    });
+
+    it('should repeat the flag for each value of a repeatable option', () => {
+      expect(buildCommandArgs('tool', 'copy', { output: ['a', 'b'] }, argumentMap)).toEqual([
+        'copy',
+        '--output',
+        'a',
+        '--output',
+        'b',
+      ]);
+    });
+
+    it('should spread variadic positionals in order', () => {
+      expect(
+        buildCommandArgs('tool', 'copy', { target: 'dest', NAME: ['a', 'b'] }, argumentMap)
+      ).toEqual(['copy', 'a', 'b', 'dest']);
+    });
+
+    it('should pass numbers as strings', () => {
+      expect(buildCommandArgs('tool', 'copy', { output: 3 }, argumentMap)).toEqual([
+        'copy',
+        '--output',
+        '3',
+      ]);
+    });
+
+    it('should omit options set to their default', () => {
+      const withDefaults: Record<string, ArgumentMapping> = {
+        depth: { type: 'option', flag: '--depth', valueRequired: true, defaultValue: 3 },
+        label: { type: 'option', flag: '--label', valueRequired: true, defaultValue: ['a'] },
+        color: { type: 'option', flag: '--color', valueRequired: false, defaultValue: true },
+      };
+
+      expect(
+        buildCommandArgs('tool', 'copy', { depth: 3, label: ['a'], color: true }, withDefaults)
+      ).toEqual(['copy']);
+      expect(buildCommandArgs('tool', 'copy', { depth: 4, label: ['b'] }, withDefaults)).toEqual([
+        'copy',
+        '--depth',
+        '4',
+        '--label',
+        'b',
+      ]);
+    });
+
+    it('should pass the negated flag for negatable switches set to false', () => {
+      const negatable: Record<string, ArgumentMapping> = {
+        cache: { type: 'option', flag: '--cache', valueRequired: false, negation: '--no-cache' },
+      };
+
+      expect(buildCommandArgs('tool', 'copy', { cache: false }, negatable)).toEqual([
+        'copy',
+        '--no-cache',
+      ]);
+      expect(buildCommandArgs('tool', 'copy', { cache: true }, negatable)).toEqual([
+        'copy',
+        '--cache',
+      ]);
+      expect(buildCommandArgs('tool', 'copy', {}, negatable)).toEqual(['copy']);
+    });
+
+    it('should join values to flags in the recorded syntax', () => {
+      const styled: Record<string, ArgumentMapping> = {
+        varFile: { type: 'option', flag: '-var-file', valueRequired: true, syntax: 'equals' },
+        D: { type: 'option', flag: '-D', valueRequired: true, syntax: 'attached' },
+        name: { type: 'option', flag: '-name', valueRequired: true },
+      };
+
+      expect(
+        buildCommandArgs(
+          'tool',
+          'tool',
+          { varFile: 'prod.tfvars', D: ['a=1', 'b=2'], name: '*.ts' },
+          styled
+        )
+      ).toEqual(['-var-file=prod.tfvars', '-Da=1', '-Db=2', '-name', '*.ts']);
+    });
+
+    it('should reject parameters missing from the argument map', () => {
+      expect(() => buildCommandArgs('tool', 'copy', { verbose: true }, argumentMap)).toThrow(
+        "Unknown parameter 'verbose' for copy"
+      );
+    });
+
+    it('should use the argument map when executing', async () => {
+      await executeCommand('tool', 'copy', { NAME: 'a', output: 'o' }, { argumentMap });
+
+      expect(mockRunProcess).toHaveBeenCalledWith('tool', ['copy', '--output', 'o', 'a'], {});
+    });
+  });
+
   describe('Help Command Execution Edge Cases', () => {
     it('should handle commands that do not support --help', async () => {
       mockRunProcess.mockRejectedValue(new Error('Unknown option: --help'));
@@ -260,7 +445,9 @@ describe('Command Execution Failure Cases', () => {
         ampersand: 'test && echo next',
       };
 
-      const result = await executeCommand('echo', 'dangerous-chars', dangerousArgs);
+      const result = await executeCommand('echo', 'dangerous-chars', dangerousArgs, {
+        argumentMap: mapAsOptions(dangerousArgs),
+      });
 
       expect(result).toBeDefined();
     });
@@ -274,15 +461,18 @@ describe('Command Execution Failure Cases', () => {
         nested: '"outer \'inner\' quotes"',
       };
 
-      const result = await executeCommand('echo', 'quote-test', quoteArgs);
+      const result = await executeCommand('echo', 'quote-test', quoteArgs, {
+        argumentMap: mapAsOptions(quoteArgs),
+      });
 
       expect(result).toBeDefined();
     });
 
     it('should handle very large argument values', async () => {
       const largeValue = 'x'.repeat(50000);
-      const result = await executeCommand('echo', 'large-arg', {
-        large: largeValue,
+      const args = { large: largeValue };
+      const result = await executeCommand('echo', 'large-arg', args, {
+        argumentMap: mapAsOptions(args),
       });
 
       expect(result).toBeDefined();
@@ -299,7 +489,9 @@ describe('Command Execution Failure Cases', () => {
         'space-string': '   ',
       };
 
-      const result = await executeCommand('echo', 'typed-args', typedArgs);
+      const result = await executeCommand('echo', 'typed-args', typedArgs, {
+        argumentMap: mapAsOptions(typedArgs),
+      });
 
       expect(result).toBeDefined();
     });
@@ -313,7 +505,9 @@ describe('Command Execution Failure Cases', () => {
         ssh: 'ssh user@remote',
       };
 
-      const result = await executeCommand('echo', 'command-like', commandLikeArgs);
+      const result = await executeCommand('echo', 'command-like', commandLikeArgs, {
+        argumentMap: mapAsOptions(commandLikeArgs),
+      });
 
       expect(result).toBeDefined();
     });
@@ -368,9 +562,10 @@ describe('Command Execution Failure Cases', () => {
         '--flag=value=more': 'flag with multiple equals',
       };
 
-      const result = await executeCommand('echo', 'malformed-args', malformedArgs);
-
-      expect(result).toBeDefined();
+      await expect(executeCommand('echo', 'malformed-args', malformedArgs)).rejects.toThrow(
+        "Unknown parameter '--'"
+      );
+      expect(mockRunProcess).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseCommandLine } from '../src/utils/commandLine.js';
+import { PolicyViolationError } from '../src/utils/policy.js';
+
+describe('parseCommandLine', () => {
+  it('should split arguments and honour quotes', () => {
+    expect(parseCommandLine(`pr create --title "Fix bug" --body 'a b'`)).toEqual([
+      'pr',
+      'create',
+      '--title',
+      'Fix bug',
+      '--body',
+      'a b',
+    ]);
+  });
+
+  it('should reject shell operators instead of dropping them', () => {
+    for (const command of ['get pods | grep web', 'logs web > out.txt', 'status && rm -rf x']) {
+      expect(() => parseCommandLine(command)).toThrow(PolicyViolationError);
+    }
+    expect(() => parseCommandLine('status; reboot')).toThrow(/Shell syntax ';' is not supported/);
+  });
+
+  it('should reject comments', () => {
+    expect(() => parseCommandLine('commit -m fix # trailing')).toThrow(/Shell syntax '# trailing'/);
+  });
+
+  it('should allow quoted operators', () => {
+    expect(parseCommandLine(`commit -m "a | b && c # d"`)).toEqual([
+      'commit',
+      '-m',
+      'a | b && c # d',
+    ]);
+  });
+
+  it('should keep globs and variables as written', () => {
+    expect(parseCommandLine('ls *.txt')).toEqual(['ls', '*.txt']);
+    expect(parseCommandLine('echo $HOME')).toEqual(['echo', '$HOME']);
+    expect(parseCommandLine('echo ${HOME} "${HOME}/bin" ${HOME:-x} $1$?')).toEqual([
+      'echo',
+      '${HOME}',
+      '${HOME}/bin',
+      '${HOME:-x}',
+      '$1$?',
+    ]);
+    expect(parseCommandLine('echo \'${A}\' \\$B "\\$C"')).toEqual(['echo', '${A}', '$B', '$C']);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { confirmExecution, ConfirmationServer } from '../src/mcp/confirmation.js';
+import { PolicyViolationError } from '../src/utils/policy.js';
+
+function createServer(
+  elicitation: boolean,
+  result: Awaited<ReturnType<ConfirmationServer['elicitInput']>> = { action: 'cancel' }
+) {
+  return {
+    getClientCapabilities: vi.fn(() => (elicitation ? { elicitation: {} } : {})),
+    elicitInput: vi.fn(async () => result),
+  };
+}
+
+describe('confirmExecution', () => {
+  it('should refuse when the client does not support elicitation', async () => {
+    const server = createServer(false);
+
+    await expect(confirmExecution(server, 'repo-delete', 'gh', ['repo', 'delete'])).rejects.toThrow(
+      /does not support elicitation/
+    );
+    expect(server.elicitInput).not.toHaveBeenCalled();
+  });
+
+  it('should show the exact command line to the user', async () => {
+    const server = createServer(true, { action: 'accept', content: { confirm: true } });
+
+    await confirmExecution(server, 'repo-delete', 'gh', ['repo', 'delete', 'my repo'], 7);
+
+    const [params, options] = server.elicitInput.mock.calls[0] as unknown as [
+      { message: string },
+      { relatedRequestId: number },
+    ];
+    expect(params.message).toContain("gh repo delete 'my repo'");
+    expect(options.relatedRequestId).toBe(7);
+  });
+
+  it('should reject when the user declines or cancels', async () => {
+    for (const result of [
+      { action: 'decline' as const },
+      { action: 'cancel' as const },
+      { action: 'accept' as const, content: { confirm: false } },
+    ]) {
+      const server = createServer(true, result);
+
+      await expect(confirmExecution(server, 'repo-delete', 'gh', [])).rejects.toBeInstanceOf(
+        PolicyViolationError
+      );
+    }
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { buildCommandEnv, getSecretEnv } from '../src/utils/environment.js';
+
+const baseEnv = {
+  PATH: '/usr/bin',
+  HOME: '/home/me',
+  AWS_REGION: 'eu-west-1',
+  GITHUB_TOKEN: 'ghp_abc123',
+  UNSET: undefined,
+};
+
+describe('Command environment', () => {
+  describe('buildCommandEnv', () => {
+    it('should pass the whole environment when no allowlist is configured', () => {
+      expect(buildCommandEnv({}, 'repo-list', baseEnv)).toEqual({
+        PATH: '/usr/bin',
+        HOME: '/home/me',
+        AWS_REGION: 'eu-west-1',
+        GITHUB_TOKEN: 'ghp_abc123',
+      });
+    });
+
+    it('should only pass allowlisted variables and PATH', () => {
+      const env = buildCommandEnv({ envAllowlist: ['HOME', 'AWS_*'] }, 'repo-list', baseEnv);
+
+      expect(env).toEqual({ PATH: '/usr/bin', HOME: '/home/me', AWS_REGION: 'eu-west-1' });
+    });
+
+    it('should inject global and per-tool variables, with the tool taking precedence', () => {
+      const env = buildCommandEnv(
+        {
+          envAllowlist: [],
+          env: { AWS_PROFILE: 'default', KUBECONFIG: '/etc/kube/config' },
+          tools: { 'deploy-*': { env: { AWS_PROFILE: 'prod' } } },
+        },
+        'deploy-app',
+        baseEnv
+      );
+
+      expect(env).toEqual({
+        PATH: '/usr/bin',
+        AWS_PROFILE: 'prod',
+        KUBECONFIG: '/etc/kube/config',
+      });
+    });
+  });
+
+  describe('getSecretEnv', () => {
+    it('should pick variables with secret-looking names', () => {
+      const secrets = getSecretEnv(
+        {},
+        {
+          GITHUB_TOKEN: 'a',
+          DB_PASSWORD: 'b',
+          AWS_SECRET_ACCESS_KEY: 'c',
+          OPENAI_API_KEY: 'd',
+          NPM_AUTH: 'e',
+          HOME: 'f',
+          KEYBOARD: 'g',
+        }
+      );
+
+      expect(Object.keys(secrets)).toEqual([
+        'GITHUB_TOKEN',
+        'DB_PASSWORD',
+        'AWS_SECRET_ACCESS_KEY',
+        'OPENAI_API_KEY',
+        'NPM_AUTH',
+      ]);
+    });
+
+    it('should add configured secret patterns', () => {
+      const secrets = getSecretEnv(
+        { secretEnv: ['DATABASE_URL'] },
+        { DATABASE_URL: 'x', HOME: 'y' }
+      );
+
+      expect(secrets).toEqual({ DATABASE_URL: 'x' });
+    });
+  });
+});
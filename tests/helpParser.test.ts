@@ -95,7 +95,10 @@ Options:
 
     const result = parseHelpText(helpText, 'testcmd');
 
-    expect(result.arguments).toHaveLength(0); // Our parser doesn't recognize this format
+    expect(result.arguments).toEqual([
+      { name: 'file', description: 'Input file (required)', required: true },
+      { name: 'output', description: 'Output file (optional)', required: false },
+    ]);
   });
 
   it('should handle empty or minimal help', () => {
@@ -131,6 +134,286 @@ LEARN MORE
   });
 });
 
+describe('parseHelpText - option values', () => {
+  function findOption(helpText: string, name: string) {
+    return parseHelpText(helpText, 'tool').options.find(option => option.name === name);
+  }
+
+  it('should read value placeholders and strip them from descriptions', () => {
+    const option = findOption(
+      `Options:
+      --manifest-path <PATH>  Path to Cargo.toml`,
+      '--manifest-path'
+    );
+
+    expect(option).toMatchObject({
+      valueRequired: true,
+      valueName: 'PATH',
+      description: 'Path to Cargo.toml',
+    });
+    expect(option?.valueType).toBeUndefined();
+  });
+
+  it('should read cobra value names as placeholders', () => {
+    const helpText = `FLAGS
+      --json fields       Output JSON with the specified fields
+  -q, --jq expression     Filter JSON output using a jq expression
+      --web               Open the list in the browser`;
+
+    expect(findOption(helpText, '--json')).toMatchObject({
+      valueRequired: true,
+      valueName: 'fields',
+      description: 'Output JSON with the specified fields',
+    });
+    expect(findOption(helpText, '--jq')).toMatchObject({ valueRequired: true });
+    expect(findOption(helpText, '--web')?.valueRequired).toBe(false);
+  });
+
+  it('should type numeric placeholders as numbers', () => {
+    const helpText = `Options:
+  -n, --lines <n>          Number of lines
+      --port int           Port to listen on
+      --timeout duration   Request timeout`;
+
+    expect(findOption(helpText, '--lines')?.valueType).toBe('number');
+    expect(findOption(helpText, '--port')?.valueType).toBe('number');
+    expect(findOption(helpText, '--timeout')).toMatchObject({
+      valueRequired: true,
+      description: 'Request timeout',
+    });
+    expect(findOption(helpText, '--timeout')?.valueType).toBeUndefined();
+  });
+
+  it('should read choices from placeholders only', () => {
+    const helpText = `Options:
+      --format {json,yaml,table}   Output format
+      --mode <fast|safe>           Mode
+  -o, --output string              Output format. One of: (json, yaml, jsonpath, custom-columns)
+      --color <WHEN>               Coloring [possible values: auto, always, never]`;
+
+    expect(findOption(helpText, '--format')?.choices).toEqual(['json', 'yaml', 'table']);
+    expect(findOption(helpText, '--mode')?.choices).toEqual(['fast', 'safe']);
+    expect(findOption(helpText, '--output')?.choices).toBeUndefined();
+    expect(findOption(helpText, '--output')?.description).toBe(
+      'Output format. One of: (json, yaml, jsonpath, custom-columns)'
+    );
+    expect(findOption(helpText, '--color')?.choices).toBeUndefined();
+  });
+
+  it('should detect repeatable options', () => {
+    const helpText = `Options:
+  -e, --env KEY=VAL        Set an environment variable (can be given multiple times)
+      --label strings      Labels to apply
+      --include <GLOB>...  Files to include
+      --name <NAME>        Name`;
+
+    expect(findOption(helpText, '--env')).toMatchObject({ valueName: 'KEY=VAL', repeatable: true });
+    expect(findOption(helpText, '--label')?.repeatable).toBe(true);
+    expect(findOption(helpText, '--include')?.repeatable).toBe(true);
+    expect(findOption(helpText, '--name')?.repeatable).toBeUndefined();
+  });
+
+  it('should read defaults and convert them to the option type', () => {
+    const helpText = `Options:
+      --timeout duration    Request timeout (default 30s)
+      --branch <BRANCH>     Branch to use [default: "main"]
+  -n, --lines <n>           Number of lines (default: 10)
+      --label strings       Labels (default [a,b])
+      --format {json,text}  Format (default: xml)
+      --color               Colorize output (default true)`;
+
+    expect(findOption(helpText, '--timeout')?.defaultValue).toBe('30s');
+    expect(findOption(helpText, '--branch')?.defaultValue).toBe('main');
+    expect(findOption(helpText, '--lines')?.defaultValue).toBe(10);
+    expect(findOption(helpText, '--label')?.defaultValue).toEqual(['a', 'b']);
+    expect(findOption(helpText, '--format')?.defaultValue).toBeUndefined();
+    expect(findOption(helpText, '--color')?.defaultValue).toBe(true);
+  });
+
+  it('should give negatable switches their negated flag', () => {
+    const { options } = parseHelpText(
+      `Options:
+      --[no-]cache      Use the cache
+      --progress        Show progress
+      --no-progress     Hide progress
+  -n, --no-verify       Bypass hooks
+      --color           Colorize output (default true)
+      --dry-run         Do not write anything`,
+      'tool'
+    );
+
+    expect(options.map(option => [option.name, option.negation])).toEqual([
+      ['--cache', '--no-cache'],
+      ['--progress', '--no-progress'],
+      ['--verify', '--no-verify'],
+      ['--color', '--color=false'],
+      ['--dry-run', undefined],
+    ]);
+    expect(options[2]).toMatchObject({
+      description: 'Pass false for --no-verify: Bypass hooks',
+      defaultValue: true,
+      negationShortName: '-n',
+    });
+  });
+
+  it('should keep the short alias of a negation listed next to --[no-]foo', () => {
+    const { options } = parseHelpText(
+      `Options:
+      --[no-]verify     Run hooks
+  -n, --no-verify       Bypass hooks`,
+      'tool'
+    );
+
+    expect(options).toEqual([
+      {
+        name: '--verify',
+        description: 'Run hooks',
+        valueRequired: false,
+        negation: '--no-verify',
+        negationShortName: '-n',
+      },
+    ]);
+  });
+
+  it('should record equals, single-dash and attached option syntax', () => {
+    const { options } = parseHelpText(
+      `Options:
+  -auto-approve          Skip interactive approval
+  -lock=false            Don't hold a state lock
+  -parallelism=n         Limit parallel operations
+  -var 'foo=bar'         Set a variable. This flag can be set multiple times.
+  -D<name>=<value>       Set a system property
+      --format=FORMAT    Output format
+      --color[=WHEN]     Colorize output`,
+      'tool'
+    );
+
+    expect(options.map(option => [option.name, option.syntax, option.valueRequired])).toEqual([
+      ['-auto-approve', undefined, false],
+      ['-lock', 'equals', true],
+      ['-parallelism', 'equals', true],
+      ['-var', undefined, true],
+      ['-D', 'attached', true],
+      ['--format', 'equals', true],
+      ['--color', 'equals', true],
+    ]);
+    expect(options[1].choices).toEqual(['true', 'false']);
+    expect(options[2].valueType).toBe('number');
+    expect(options[3]).toMatchObject({ valueName: 'foo=bar', repeatable: true });
+    expect(options[4].valueName).toBe('name=value');
+    expect(options[5]).toMatchObject({ valueName: 'FORMAT', description: 'Output format' });
+  });
+
+  it('should attach optional values to short aliases', () => {
+    const { options } = parseHelpText(
+      `Options:
+  -w, --width=COLS           Set output width
+  -S, --gpg-sign[=<key-id>]  GPG-sign commits`,
+      'tool'
+    );
+
+    expect(options.map(option => [option.shortName, option.syntax, option.shortSyntax])).toEqual([
+      ['-w', 'equals', undefined],
+      ['-S', 'equals', 'attached'],
+    ]);
+  });
+
+  it('should read defaults from kubectl option entries', () => {
+    const { options } = parseHelpText(
+      `Options:
+    -A, --all-namespaces=false:
+	If present, list the requested object(s) across all namespaces. Namespace in current context
+	is ignored even if specified with --namespace.
+
+    --chunk-size=500:
+	Return large lists in chunks rather than all at once. Pass 0 to disable.
+
+    -o, --output='':
+	Output format.
+
+    -L, --label-columns=[]:
+	Accepts a comma separated list of labels that are going to be presented as columns.
+
+    --show-kind=true:
+	If present, list the resource type for the requested object(s).
+`,
+      'kubectl'
+    );
+
+    expect(options).toEqual([
+      {
+        name: '--all-namespaces',
+        shortName: '-A',
+        description:
+          'If present, list the requested object(s) across all namespaces. Namespace in current context is ignored even if specified with --namespace. (default: false)',
+        valueRequired: false,
+        defaultValue: false,
+      },
+      {
+        name: '--chunk-size',
+        description:
+          'Return large lists in chunks rather than all at once. Pass 0 to disable. (default: 500)',
+        valueRequired: true,
+        valueName: 'int',
+        valueType: 'number',
+        defaultValue: 500,
+      },
+      {
+        name: '--output',
+        shortName: '-o',
+        description: 'Output format.',
+        valueRequired: true,
+        valueName: 'string',
+      },
+      {
+        name: '--label-columns',
+        shortName: '-L',
+        description:
+          'Accepts a comma separated list of labels that are going to be presented as columns.',
+        valueRequired: true,
+        valueName: 'strings',
+        repeatable: true,
+      },
+      {
+        name: '--show-kind',
+        description:
+          'If present, list the resource type for the requested object(s). (default: true)',
+        valueRequired: false,
+        defaultValue: true,
+        negation: '--show-kind=false',
+      },
+    ]);
+  });
+
+  it('should keep options without a placeholder as switches', () => {
+    const option = findOption(
+      `Options:
+      --dry-run   Do not write anything`,
+      '--dry-run'
+    );
+
+    expect(option).toMatchObject({ valueRequired: false, description: 'Do not write anything' });
+  });
+
+  it('should mark variadic arguments', () => {
+    const { arguments: args } = parseHelpText(
+      `Usage: tool [OPTIONS] <files>...
+
+Arguments:
+  <files>...  Files to process
+  [rest...]   Extra arguments
+  <target>    Target`,
+      'tool'
+    );
+
+    expect(args).toEqual([
+      { name: 'files', description: 'Files to process', required: true, variadic: true },
+      { name: 'rest', description: 'Extra arguments', required: false, variadic: true },
+      { name: 'target', description: 'Target', required: true },
+    ]);
+  });
+});
+
 describe('parseHelpText - Real World Azure CLI Tests', () => {
   it('should parse Azure CLI main help (az --help)', () => {
     const helpText = `Group
@@ -562,7 +845,8 @@ Options:
     const properties = tool.inputSchema.properties;
 
     expect(properties.message).toBeDefined();
-    expect(properties.message.type).toBe('boolean'); // Current behavior - could be enhanced to 'string'
+    expect(properties.message.type).toBe('string');
+    expect(properties.message.description).toBe('Use the given message as the commit message');
     expect(properties.m).toBeDefined(); // short alias
 
     expect(properties.all).toBeDefined();
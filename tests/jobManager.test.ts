@@ -0,0 +1,126 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { setTimeout } from 'timers/promises';
+import { JobManager } from '../src/utils/jobManager.js';
+import { CommandResult } from '../src/types/cli.js';
+
+async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await setTimeout(20);
+  }
+}
+
+describe.skipIf(process.platform === 'win32')('JobManager', () => {
+  let manager: JobManager;
+
+  afterEach(() => {
+    manager?.stopAll();
+  });
+
+  it('should run a job in the background and report its exit code', async () => {
+    manager = new JobManager();
+    const started = manager.start('sh', ['-c', 'echo done; exit 2']);
+
+    expect(started.running).toBe(true);
+    expect(started.argv).toEqual(['sh', '-c', 'echo done; exit 2']);
+
+    await waitFor(() => !manager.status(started.id)?.running);
+    const status = manager.status(started.id);
+
+    expect(status?.exitCode).toBe(2);
+    expect(status?.stdoutBytes).toBe(5);
+  });
+
+  it('should return only output produced after the given offsets', async () => {
+    manager = new JobManager();
+    const { id } = manager.start('sh', ['-c', 'echo one; sleep 0.3; echo two >&2; echo three']);
+
+    await waitFor(() => (manager.status(id)?.stdoutBytes ?? 0) > 0);
+    const first = manager.output(id, 0, 0, 1024);
+    expect(first?.stdout).toBe('one\n');
+
+    await waitFor(() => !manager.status(id)?.running);
+    const second = manager.output(id, first!.stdoutOffset, first!.stderrOffset, 1024);
+
+    expect(second?.stdout).toBe('three\n');
+    expect(second?.stderr).toBe('two\n');
+    expect(second?.running).toBe(false);
+    expect(second?.exitCode).toBe(0);
+  });
+
+  it('should limit the bytes returned per read', async () => {
+    manager = new JobManager();
+    const { id } = manager.start('sh', ['-c', 'echo abcdefghij']);
+    await waitFor(() => !manager.status(id)?.running);
+
+    const page = manager.output(id, 0, 0, 4);
+
+    expect(page?.stdout).toBe('abcd');
+    expect(page?.stdoutOffset).toBe(4);
+  });
+
+  it('should redact output when it is read', async () => {
+    manager = new JobManager();
+    const { id } = manager.start('sh', ['-c', 'echo hunter2'], {
+      redact: text => text.replace('hunter2', '[REDACTED:PASSWORD]'),
+    });
+    await waitFor(() => !manager.status(id)?.running);
+
+    expect(manager.output(id, 0, 0, 1024)?.stdout).toBe('[REDACTED:PASSWORD]\n');
+  });
+
+  it('should end pages of a running job at a line end so secrets are redacted whole', async () => {
+    manager = new JobManager();
+    const { id } = manager.start('sh', ['-c', 'printf "one\\nusing hun"; sleep 0.3; echo ter2'], {
+      redact: text => text.replace('hunter2', '[REDACTED:PASSWORD]'),
+    });
+
+    await waitFor(() => (manager.status(id)?.stdoutBytes ?? 0) >= 13);
+    const first = manager.output(id, 0, 0, 1024);
+    expect(first?.stdout).toBe('one\n');
+
+    await waitFor(() => !manager.status(id)?.running);
+    const second = manager.output(id, first!.stdoutOffset, 0, 1024);
+    expect(second?.stdout).toBe('using [REDACTED:PASSWORD]\n');
+  });
+
+  it('should report the result with the retained output when the job exits', async () => {
+    manager = new JobManager();
+    let exited: CommandResult | undefined;
+    manager.start('sh', ['-c', 'echo out; echo err >&2; exit 4'], {
+      onExit: result => (exited = result),
+    });
+    await waitFor(() => exited !== undefined);
+
+    expect(exited).toMatchObject({ stdout: 'out\n', stderr: 'err\n', exitCode: 4 });
+  });
+
+  it('should stop a running job', async () => {
+    manager = new JobManager();
+    const { id } = manager.start('sh', ['-c', 'sleep 30']);
+
+    const status = await manager.stop(id);
+
+    expect(status?.running).toBe(false);
+    expect(status?.cancelled).toBe(true);
+  });
+
+  it('should refuse to start more jobs than the limit', async () => {
+    manager = new JobManager(1);
+    const { id } = manager.start('sh', ['-c', 'sleep 30']);
+
+    expect(() => manager.start('sh', ['-c', 'true'])).toThrow('Too many running jobs');
+
+    await manager.stop(id);
+    expect(() => manager.start('sh', ['-c', 'true'])).not.toThrow();
+  });
+
+  it('should return null for unknown job ids', async () => {
+    manager = new JobManager();
+
+    expect(manager.status('missing')).toBeNull();
+    expect(manager.output('missing', 0, 0, 1024)).toBeNull();
+    expect(await manager.stop('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { limitCommandOutput, OutputStore, truncateOutput } from '../src/utils/outputLimiter.js';
+
+const limits = { maxBytes: 100, maxLines: 10 };
+
+describe('Output limits', () => {
+  describe('truncateOutput', () => {
+    it('should leave output within the limits untouched', () => {
+      expect(truncateOutput('short\noutput', limits, 'abc', 'stdout')).toBe('short\noutput');
+    });
+
+    it('should keep the head and tail of oversized output', () => {
+      const text = 'a'.repeat(200) + 'b'.repeat(200);
+      const truncated = truncateOutput(text, limits, 'abc', 'stdout');
+
+      expect(truncated.startsWith('a'.repeat(50) + '\n')).toBe(true);
+      expect(truncated.endsWith('\n' + 'b'.repeat(50))).toBe(true);
+      expect(truncated).toContain('[... 300 bytes omitted; call get_output with id "abc"');
+    });
+
+    it('should keep the first and last lines when there are too many lines', () => {
+      const text = Array.from({ length: 50 }, (_, i) => `line${i}`).join('\n');
+      const truncated = truncateOutput(text, limits, 'abc', 'stderr').split('\n');
+
+      expect(truncated.slice(0, 5)).toEqual(['line0', 'line1', 'line2', 'line3', 'line4']);
+      expect(truncated.slice(-5)).toEqual(['line45', 'line46', 'line47', 'line48', 'line49']);
+      expect(truncated[5]).toContain('stream "stderr"');
+    });
+  });
+
+  describe('limitCommandOutput', () => {
+    it('should not store results within the limits', () => {
+      const store = new OutputStore();
+      const result = { stdout: 'ok', stderr: '', exitCode: 0 };
+
+      expect(limitCommandOutput(result, limits, store)).toBe(result);
+    });
+
+    it('should store the full output and reference it from the result', () => {
+      const store = new OutputStore();
+      const stdout = 'x'.repeat(250);
+      const limited = limitCommandOutput({ stdout, stderr: 'warn', exitCode: 0 }, limits, store);
+
+      expect(limited.outputId).toBeDefined();
+      expect(limited.stderr).toBe('warn');
+      expect(limited.stdout).toContain(`id "${limited.outputId}"`);
+
+      const page = store.read(limited.outputId!, 'stdout', 0, 1000);
+      expect(page?.text).toBe(stdout);
+    });
+  });
+
+  describe('OutputStore', () => {
+    it('should page through stored output by byte offset', () => {
+      const store = new OutputStore();
+      const id = store.save({ stdout: '0123456789', stderr: '', exitCode: 0 });
+
+      expect(store.read(id, 'stdout', 0, 4)).toEqual({
+        text: '0123',
+        offset: 0,
+        nextOffset: 4,
+        totalBytes: 10,
+      });
+      expect(store.read(id, 'stdout', 8, 4)).toEqual({
+        text: '89',
+        offset: 8,
+        nextOffset: null,
+        totalBytes: 10,
+      });
+    });
+
+    it('should return null for unknown ids', () => {
+      expect(new OutputStore().read('missing', 'stdout', 0, 10)).toBeNull();
+    });
+
+    it('should evict the oldest entries once the stored bytes exceed the limit', () => {
+      const store = new OutputStore(10);
+      const first = store.save({ stdout: 'aaaa', stderr: 'a', exitCode: 0 });
+      const second = store.save({ stdout: 'bbbb', stderr: '', exitCode: 0 });
+      const third = store.save({ stdout: 'cccc', stderr: '', exitCode: 0 });
+
+      expect(store.read(first, 'stdout', 0, 10)).toBeNull();
+      expect(store.read(second, 'stdout', 0, 10)?.text).toBe('bbbb');
+      expect(store.read(third, 'stdout', 0, 10)?.text).toBe('cccc');
+    });
+
+    it('should keep the newest entry even when it alone exceeds the limit', () => {
+      const store = new OutputStore(2);
+      store.save({ stdout: 'a', stderr: '', exitCode: 0 });
+      const large = store.save({ stdout: 'large', stderr: '', exitCode: 0 });
+
+      expect(store.read(large, 'stdout', 0, 10)?.text).toBe('large');
+    });
+  });
+});
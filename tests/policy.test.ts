@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertToolPermitted,
+  findUnknownSubcommand,
+  getToolAccess,
+  isToolAllowed,
+  isToolPermitted,
+  requiresConfirmation,
+  matchesPattern,
+  PolicyViolationError,
+  resolveToolConfig,
+  resolveToolName,
+} from '../src/utils/policy.js';
+import { CliCommand } from '../src/types/cli.js';
+
+function command(name: string, subcommands: CliCommand[] = []): CliCommand {
+  return { name, description: '', subcommands, options: [], arguments: [] };
+}
+
+describe('Tool policy', () => {
+  describe('matchesPattern', () => {
+    it('should match globs against the whole tool path', () => {
+      expect(matchesPattern('repo-*', 'repo-list')).toBe(true);
+      expect(matchesPattern('repo-*', 'gist-repo-list')).toBe(false);
+      expect(matchesPattern('*-delete', 'repo-delete')).toBe(true);
+      expect(matchesPattern('pr-?iew', 'pr-view')).toBe(true);
+    });
+
+    it('should treat slash-wrapped patterns as regular expressions', () => {
+      expect(matchesPattern('/^repo-(list|view)$/', 'repo-view')).toBe(true);
+      expect(matchesPattern('/^repo-(list|view)$/', 'repo-delete')).toBe(false);
+      expect(matchesPattern('/DELETE/i', 'repo-delete')).toBe(true);
+    });
+
+    it('should not treat regex metacharacters in globs specially', () => {
+      expect(matchesPattern('a.b', 'a.b')).toBe(true);
+      expect(matchesPattern('a.b', 'axb')).toBe(false);
+    });
+  });
+
+  describe('isToolAllowed', () => {
+    it('should allow everything without rules', () => {
+      expect(isToolAllowed(undefined, 'repo-delete')).toBe(true);
+      expect(isToolAllowed([], 'repo-delete')).toBe(true);
+    });
+
+    it('should only allow included tools when include rules exist', () => {
+      const rules = ['repo-*', 'pr-list'];
+      expect(isToolAllowed(rules, 'repo-view')).toBe(true);
+      expect(isToolAllowed(rules, 'pr-list')).toBe(true);
+      expect(isToolAllowed(rules, 'pr-merge')).toBe(false);
+    });
+
+    it('should allow everything except excluded tools with only exclude rules', () => {
+      const rules = ['!*-delete'];
+      expect(isToolAllowed(rules, 'repo-view')).toBe(true);
+      expect(isToolAllowed(rules, 'repo-delete')).toBe(false);
+    });
+
+    it('should let the last matching rule win', () => {
+      expect(isToolAllowed(['repo-*', '!*-delete'], 'repo-delete')).toBe(false);
+      expect(isToolAllowed(['!*-delete', 'repo-*'], 'repo-delete')).toBe(true);
+    });
+  });
+
+  describe('resolveToolName', () => {
+    const root: CliCommand = {
+      ...command('gh', [command('repo', [command('delete'), command('list')])]),
+      options: [
+        { name: '--help', description: '', valueRequired: false },
+        { name: '--repo', shortName: '-R', description: '', valueRequired: true },
+      ],
+    };
+
+    it('should resolve subcommand paths from argv', () => {
+      expect(resolveToolName(root, 'gh', ['repo', 'delete', 'owner/name'])).toBe('repo-delete');
+      expect(resolveToolName(root, 'gh', ['repo', 'list', '--limit', '5'])).toBe('repo-list');
+    });
+
+    it('should skip flags and their values before subcommands', () => {
+      expect(resolveToolName(root, 'gh', ['repo', '--help', 'delete'])).toBe('repo-delete');
+      expect(resolveToolName(root, 'gh', ['-R', 'owner/name', 'repo', 'delete', 'x'])).toBe(
+        'repo-delete'
+      );
+      expect(resolveToolName(root, 'gh', ['--repo=owner/name', 'repo', 'delete'])).toBe(
+        'repo-delete'
+      );
+    });
+
+    it('should use known options to tell values from subcommands', () => {
+      const kubectl: CliCommand = {
+        ...command('kubectl', [command('delete'), command('get')]),
+        options: [
+          { name: '--namespace', shortName: '-n', description: '', valueRequired: true },
+          { name: '--all-namespaces', shortName: '-A', description: '', valueRequired: false },
+        ],
+      };
+
+      expect(resolveToolName(kubectl, 'kubectl', ['-n', 'prod', 'delete', 'pod', 'x'])).toBe(
+        'delete'
+      );
+      expect(resolveToolName(kubectl, 'kubectl', ['--context=prod', 'delete', 'pod'])).toBe(
+        'delete'
+      );
+      expect(resolveToolName(kubectl, 'kubectl', ['-A', 'delete', 'pods'])).toBe('delete');
+      expect(resolveToolName(kubectl, 'kubectl', ['-n', 'get', 'delete'])).toBe('delete');
+    });
+
+    it('should reject flags before the subcommand that may or may not take a value', () => {
+      const kubectl = command('kubectl', [command('delete'), command('get')]);
+
+      expect(() =>
+        resolveToolName(kubectl, 'kubectl', ['-n', 'get', 'delete', 'pod', 'web'])
+      ).toThrow(PolicyViolationError);
+      expect(() => resolveToolName(kubectl, 'kubectl', ['-n', 'prod', 'get', 'pods'])).toThrow(
+        /Cannot tell which command/
+      );
+      expect(resolveToolName(kubectl, 'kubectl', ['-n=prod', 'get', 'pods'])).toBe('get');
+      expect(resolveToolName(kubectl, 'kubectl', ['get', 'pods', '-n', 'prod'])).toBe('get');
+    });
+
+    it('should stop at --', () => {
+      expect(resolveToolName(root, 'gh', ['--', 'repo', 'delete'])).toBe('gh');
+    });
+
+    it('should resolve to the base command when no subcommand matches', () => {
+      expect(resolveToolName(root, 'gh', ['--version'])).toBe('gh');
+      expect(resolveToolName(root, 'gh', ['unknown', 'repo'])).toBe('gh');
+    });
+  });
+
+  describe('findUnknownSubcommand', () => {
+    const root: CliCommand = {
+      ...command('gh', [command('repo', [command('delete'), command('list')])]),
+      options: [{ name: '--repo', shortName: '-R', description: '', valueRequired: true }],
+    };
+
+    it('should accept paths through the discovered tree', () => {
+      expect(findUnknownSubcommand(root, ['repo', 'delete', 'owner/name'])).toBeNull();
+      expect(findUnknownSubcommand(root, ['repo', 'list', '--limit', '5'])).toBeNull();
+    });
+
+    it('should accept flags without a subcommand', () => {
+      expect(findUnknownSubcommand(root, ['--version'])).toBeNull();
+      expect(findUnknownSubcommand(root, ['repo', '--help'])).toBeNull();
+    });
+
+    it('should report positional arguments that are not known subcommands', () => {
+      expect(findUnknownSubcommand(root, ['api', 'repos/x'])).toBe('api');
+      expect(findUnknownSubcommand(root, ['repo', 'archive', 'x'])).toBe('archive');
+      expect(findUnknownSubcommand(root, ['repo', 'archive', '-R', 'owner/name'])).toBe('archive');
+    });
+
+    it('should skip flags and their values before subcommands', () => {
+      const kubectl: CliCommand = {
+        ...command('kubectl', [command('get'), command('config', [command('view')])]),
+        options: [
+          { name: '--namespace', shortName: '-n', description: '', valueRequired: true },
+          { name: '--kubeconfig', description: '', valueRequired: true },
+        ],
+      };
+
+      expect(findUnknownSubcommand(root, ['-R', 'owner/name', 'repo', 'list'])).toBeNull();
+      expect(findUnknownSubcommand(kubectl, ['-n', 'prod', 'get', 'pods'])).toBeNull();
+      expect(findUnknownSubcommand(kubectl, ['config', '--kubeconfig', 'x', 'view'])).toBeNull();
+      expect(findUnknownSubcommand(kubectl, ['-n', 'prod', 'rollout'])).toBe('rollout');
+      expect(() => findUnknownSubcommand(kubectl, ['-x', 'prod', 'get'])).toThrow(
+        PolicyViolationError
+      );
+    });
+  });
+
+  describe('resolveToolConfig', () => {
+    it('should merge matching entries in declaration order', () => {
+      const config = {
+        tools: {
+          'repo-*': { access: 'write' as const },
+          'repo-sync': { access: 'read' as const },
+          'pr-*': { access: 'read' as const },
+        },
+      };
+
+      expect(resolveToolConfig(config, 'repo-sync')).toEqual({ access: 'read' });
+      expect(resolveToolConfig(config, 'repo-list')).toEqual({ access: 'write' });
+      expect(resolveToolConfig(config, 'issue-list')).toEqual({});
+    });
+  });
+
+  describe('read-only mode', () => {
+    it('should use verb heuristics unless overridden', () => {
+      const config = { readOnly: true, tools: { 'cache-prune': { access: 'read' as const } } };
+
+      expect(getToolAccess(config, 'repo-list')).toBe('read');
+      expect(getToolAccess(config, 'repo-delete')).toBe('write');
+      expect(getToolAccess(config, 'cache-prune')).toBe('read');
+    });
+
+    it('should only permit read tools', () => {
+      const config = { readOnly: true };
+
+      expect(isToolPermitted(config, 'pr-view')).toBe(true);
+      expect(isToolPermitted(config, 'pr-merge')).toBe(false);
+      expect(isToolPermitted({}, 'pr-merge')).toBe(true);
+    });
+  });
+
+  describe('requiresConfirmation', () => {
+    it('should require confirmation for destructive tools by default', () => {
+      expect(requiresConfirmation({}, 'repo-delete')).toBe(true);
+      expect(requiresConfirmation({}, 'repo-list')).toBe(false);
+    });
+
+    it('should honour per-tool overrides and the global switch', () => {
+      const config = {
+        tools: { 'repo-delete': { destructive: false }, deploy: { destructive: true } },
+      };
+
+      expect(requiresConfirmation(config, 'repo-delete')).toBe(false);
+      expect(requiresConfirmation(config, 'deploy')).toBe(true);
+      expect(requiresConfirmation({ confirmDestructive: false }, 'repo-delete')).toBe(false);
+    });
+  });
+
+  describe('assertToolPermitted', () => {
+    it('should throw a policy violation for excluded tools', () => {
+      const config = { policy: ['!*-delete'] };
+
+      expect(() => assertToolPermitted(config, 'repo-delete')).toThrow(PolicyViolationError);
+      expect(() => assertToolPermitted(config, 'repo-list')).not.toThrow();
+    });
+
+    it('should reject write tools in read-only mode', () => {
+      expect(() => assertToolPermitted({ readOnly: true }, 'repo-create')).toThrow(
+        /read-only mode/
+      );
+    });
+  });
+});
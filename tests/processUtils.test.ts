@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, readFileSync } from 'fs';
+import { runProcess } from '../src/utils/processUtils.js';
+
+function isAlive(pid: number): boolean {
+  const statFile = `/proc/${pid}/stat`;
+  if (existsSync(statFile)) {
+    // Orphans that were killed may linger as zombies until init reaps them
+    return readFileSync(statFile, 'utf-8').split(' ')[2] !== 'Z';
+  }
+
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe.skipIf(process.platform === 'win32')('runProcess', () => {
+  it('should capture output and exit code', async () => {
+    const result = await runProcess('sh', ['-c', 'echo out; echo err >&2; exit 3']);
+
+    expect(result.stdout).toBe('out\n');
+    expect(result.stderr).toBe('err\n');
+    expect(result.exitCode).toBe(3);
+    expect(result.timedOut).toBeUndefined();
+  });
+
+  it('should report processes killed by a signal as failed', async () => {
+    const result = await runProcess('sh', ['-c', 'echo partial; kill -SEGV $$']);
+
+    expect(result.stdout).toBe('partial\n');
+    expect(result.exitCode).toBe(139);
+    expect(result.stderr).toContain('Killed by SIGSEGV');
+  });
+
+  it('should record the executed argv and duration', async () => {
+    const result = await runProcess('sh', ['-c', 'true']);
+
+    expect(result.argv).toEqual(['sh', '-c', 'true']);
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should return output captured before a timeout with a marker', async () => {
+    const result = await runProcess('sh', ['-c', 'echo started; sleep 30'], { timeout: 200 });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBe(-1);
+    expect(result.stdout).toBe('started\n');
+    expect(result.stderr).toContain('Timed out after 200ms');
+  });
+
+  it('should kill the whole process group on timeout', async () => {
+    const result = await runProcess('sh', ['-c', 'sleep 30 & echo $!; wait'], { timeout: 200 });
+    const childPid = Number(result.stdout.trim());
+
+    expect(result.timedOut).toBe(true);
+    expect(childPid).toBeGreaterThan(0);
+    expect(isAlive(childPid)).toBe(false);
+  });
+
+  it('should escalate to SIGKILL when SIGTERM is ignored', async () => {
+    const start = Date.now();
+    const result = await runProcess('sh', ['-c', 'trap "" TERM; echo ready; sleep 30'], {
+      timeout: 200,
+      killGracePeriod: 200,
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.stdout).toBe('ready\n');
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+
+  it('should kill the process group when cancelled', async () => {
+    const controller = new AbortController();
+    const pending = runProcess('sh', ['-c', 'sleep 30 & echo $!; wait'], {
+      signal: controller.signal,
+      onOutput: () => controller.abort(),
+    });
+
+    const result = await pending;
+    const childPid = Number(result.stdout.trim());
+
+    expect(result.cancelled).toBe(true);
+    expect(result.timedOut).toBeUndefined();
+    expect(result.exitCode).toBe(-1);
+    expect(result.stderr).toContain('Cancelled');
+    expect(isAlive(childPid)).toBe(false);
+  });
+
+  it('should not start a process when already cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await runProcess('sh', ['-c', 'echo ran'], { signal: controller.signal });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.stdout).toBe('');
+  });
+
+  it('should stream output chunks as they arrive', async () => {
+    const chunks: string[] = [];
+    await runProcess('sh', ['-c', 'echo one; echo two >&2'], {
+      onOutput: (stream, chunk) => chunks.push(`${stream}:${chunk}`),
+    });
+
+    expect(chunks).toContain('stdout:one\n');
+    expect(chunks).toContain('stderr:two\n');
+  });
+
+  it('should discard output beyond the buffer limit', async () => {
+    const result = await runProcess('sh', ['-c', 'printf "%0100d" 0'], { maxBufferBytes: 40 });
+
+    expect(result.stdout).toBe(`${'0'.repeat(40)}\n[60 bytes discarded]`);
+  });
+
+  it('should pipe input to stdin', async () => {
+    const result = await runProcess('cat', [], { input: 'line one\nline two\n' });
+
+    expect(result.stdout).toBe('line one\nline two\n');
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('should not fail when the process ignores its input', async () => {
+    const result = await runProcess('sh', ['-c', 'echo ok'], { input: 'x'.repeat(1024 * 1024) });
+
+    expect(result.stdout).toBe('ok\n');
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('should close stdin when no input is given', async () => {
+    const result = await runProcess('cat', []);
+
+    expect(result.stdout).toBe('');
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('should run in the given working directory', async () => {
+    const result = await runProcess('pwd', [], { cwd: '/' });
+
+    expect(result.stdout).toBe('/\n');
+  });
+
+  it('should run with the C locale unless told to keep the inherited one', async () => {
+    const env = { PATH: process.env.PATH ?? '', LANG: 'de_DE.UTF-8' };
+    const script = ['-c', 'echo $LANG'];
+
+    expect((await runProcess('sh', script, { env })).stdout).toBe('C\n');
+    expect((await runProcess('sh', script, { env, locale: 'en_US.UTF-8' })).stdout).toBe(
+      'en_US.UTF-8\n'
+    );
+    expect((await runProcess('sh', script, { env, locale: null })).stdout).toBe('de_DE.UTF-8\n');
+  });
+
+  it('should report spawn failures', async () => {
+    const result = await runProcess('nonexistent-command-xyz', []);
+
+    expect(result.exitCode).toBe(-1);
+    expect(result.stderr).toContain('ENOENT');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createProgressReporter } from '../src/mcp/progress.js';
+
+describe('createProgressReporter', () => {
+  it('should not report without a progress token', () => {
+    const extra = { sendNotification: vi.fn(async () => {}) };
+
+    expect(createProgressReporter(extra, 'install')).toBeUndefined();
+    expect(createProgressReporter({ ...extra, _meta: {} }, 'install')).toBeUndefined();
+  });
+
+  it('should send increasing progress and log messages for each chunk', () => {
+    const extra = { _meta: { progressToken: 'tok' }, sendNotification: vi.fn(async () => {}) };
+    const report = createProgressReporter(extra, 'install')!;
+
+    report('stdout', 'fetching\nresolving\n');
+    report('stderr', 'deprecated\n');
+
+    expect(extra.sendNotification.mock.calls.map(call => call[0])).toEqual([
+      {
+        method: 'notifications/progress',
+        params: { progressToken: 'tok', progress: 19, message: 'resolving' },
+      },
+      {
+        method: 'notifications/message',
+        params: { level: 'info', logger: 'install', data: 'fetching\nresolving\n' },
+      },
+      {
+        method: 'notifications/progress',
+        params: { progressToken: 'tok', progress: 30, message: 'deprecated' },
+      },
+      {
+        method: 'notifications/message',
+        params: { level: 'warning', logger: 'install', data: 'deprecated\n' },
+      },
+    ]);
+  });
+
+  it('should redact secrets from streamed output', () => {
+    const extra = { _meta: { progressToken: 'tok' }, sendNotification: vi.fn(async () => {}) };
+    const report = createProgressReporter(extra, 'login', text =>
+      text.replace('hunter2', '[REDACTED:PASSWORD]')
+    )!;
+
+    report('stdout', 'using hunter2\n');
+
+    expect(JSON.stringify(extra.sendNotification.mock.calls)).not.toContain('hunter2');
+  });
+
+  it('should redact secrets split across chunks', () => {
+    const extra = { _meta: { progressToken: 'tok' }, sendNotification: vi.fn(async () => {}) };
+    const report = createProgressReporter(extra, 'login', text =>
+      text.replace('hunter2', '[REDACTED:PASSWORD]')
+    )!;
+
+    report('stdout', 'using hun');
+    report('stdout', 'ter2\n');
+
+    const sent = JSON.stringify(extra.sendNotification.mock.calls);
+    expect(sent).not.toContain('hun');
+    expect(sent).toContain('using [REDACTED:PASSWORD]');
+  });
+
+  it('should ignore notification failures', async () => {
+    const extra = {
+      _meta: { progressToken: 1 },
+      sendNotification: vi.fn(async () => {
+        throw new Error('Not connected');
+      }),
+    };
+
+    expect(() => createProgressReporter(extra, 'install')!('stdout', 'x')).not.toThrow();
+    await Promise.resolve();
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  formatCommandResponse,
+  formatErrorResponse,
+  formatOutputPageResponse,
+} from '../src/utils/responseFormatter.js';
+import { commandOutputShape } from '../src/mcp/outputSchema.js';
+
+describe('Response formatting', () => {
+  describe('formatCommandResponse', () => {
+    const result = {
+      stdout: 'file.txt\n',
+      stderr: 'warning\n',
+      exitCode: 2,
+      argv: ['ls', '-l', 'file.txt'],
+      durationMs: 12,
+    };
+
+    it('should return stdout, stderr and exit code as structured content', () => {
+      expect(formatCommandResponse(result).structuredContent).toEqual({
+        stdout: 'file.txt\n',
+        stderr: 'warning\n',
+        exitCode: 2,
+        durationMs: 12,
+        argv: ['ls', '-l', 'file.txt'],
+      });
+    });
+
+    it('should keep the text block for clients without structured content', () => {
+      const text = formatCommandResponse(result).content[0].text;
+
+      expect(text).toContain('file.txt');
+      expect(text).toContain('Errors:\nwarning');
+      expect(text).toContain('Exit code: 2');
+    });
+
+    it('should match the declared output schema', () => {
+      const schema = z.object(commandOutputShape);
+
+      expect(schema.safeParse(formatCommandResponse(result).structuredContent).success).toBe(true);
+      expect(
+        schema.safeParse(
+          formatCommandResponse({
+            stdout: '',
+            stderr: '',
+            exitCode: 0,
+            timedOut: true,
+            outputId: 'abc',
+          }).structuredContent
+        ).success
+      ).toBe(true);
+    });
+  });
+
+  describe('JSON output', () => {
+    it('should return JSON stdout as parsed structured content', () => {
+      const response = formatCommandResponse({
+        stdout: '{"items": [{"name": "web"}]}\n',
+        stderr: '',
+        exitCode: 0,
+      });
+
+      expect(response.structuredContent?.json).toEqual({ items: [{ name: 'web' }] });
+      expect(response.structuredContent?.stdout).toBeUndefined();
+      expect(response.content[0].text).toContain('"name": "web"');
+    });
+
+    it('should keep stdout that is not valid JSON as text', () => {
+      for (const stdout of ['[WARN] deprecated', 'plain text', '{"truncated": ']) {
+        const response = formatCommandResponse({ stdout, stderr: '', exitCode: 0 });
+
+        expect(response.structuredContent?.stdout).toBe(stdout);
+        expect(response.structuredContent?.json).toBeUndefined();
+      }
+    });
+
+    it('should explain that truncated JSON could not be parsed', () => {
+      const response = formatCommandResponse({
+        stdout: '{"items": [\n[... 100 bytes omitted; call get_output ...]\n]}',
+        stderr: '',
+        exitCode: 0,
+        outputId: 'abc123',
+      });
+
+      expect(response.structuredContent?.json).toBeUndefined();
+      expect(response.structuredContent?.stdout).toContain('bytes omitted');
+      expect(response.structuredContent?.jsonError).toContain('"abc123"');
+    });
+  });
+
+  describe('error flag', () => {
+    it('should mark non-zero exit codes as errors by default', () => {
+      expect(formatCommandResponse({ stdout: '', stderr: '', exitCode: 0 }).isError).toBe(false);
+      expect(formatCommandResponse({ stdout: '', stderr: '', exitCode: 1 }).isError).toBe(true);
+      expect(formatCommandResponse({ stdout: '', stderr: '', exitCode: -1 }).isError).toBe(true);
+    });
+
+    it('should honour configured success exit codes', () => {
+      const noMatch = { stdout: '', stderr: '', exitCode: 1 };
+      const failure = { stdout: '', stderr: 'bad regex', exitCode: 2 };
+
+      expect(formatCommandResponse(noMatch, [0, 1]).isError).toBe(false);
+      expect(formatCommandResponse(failure, [0, 1]).isError).toBe(true);
+    });
+  });
+
+  describe('formatErrorResponse', () => {
+    it('should mark the response as an error', () => {
+      const response = formatErrorResponse(new Error('boom'));
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toBe('Error executing command: boom');
+    });
+  });
+
+  describe('formatOutputPageResponse', () => {
+    it('should point at the next offset while output remains', () => {
+      const response = formatOutputPageResponse({
+        text: 'abc',
+        offset: 0,
+        nextOffset: 3,
+        totalBytes: 10,
+      });
+
+      expect(response.content[0].text).toBe('abc\n\n[bytes 0-3 of 10; next offset 3]');
+    });
+
+    it('should mark the end of the output', () => {
+      const response = formatOutputPageResponse({
+        text: 'xyz',
+        offset: 7,
+        nextOffset: null,
+        totalBytes: 10,
+      });
+
+      expect(response.content[0].text).toBe('xyz\n\n[bytes 7-10 of 10; end of output]');
+    });
+  });
+});
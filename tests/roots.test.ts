@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getAllowedRoots, resolveWorkingDirectory } from '../src/mcp/roots.js';
+import { PolicyViolationError } from '../src/utils/policy.js';
+
+function createServer(roots?: string[]) {
+  return {
+    getClientCapabilities: vi.fn(() => (roots ? { roots: {} } : {})),
+    listRoots: vi.fn(async () => ({
+      roots: (roots ?? []).map(uri => ({ uri })),
+    })),
+  };
+}
+
+describe('Working directory roots', () => {
+  describe('getAllowedRoots', () => {
+    it('should prefer the configured roots', async () => {
+      const server = createServer(['file:///client']);
+
+      expect(await getAllowedRoots(server, { allowedRoots: ['/configured'] })).toEqual([
+        '/configured',
+      ]);
+      expect(server.listRoots).not.toHaveBeenCalled();
+    });
+
+    it('should use the file roots shared by the client', async () => {
+      const server = createServer(['file:///work/app', 'https://example.com/repo']);
+
+      expect(await getAllowedRoots(server, {}, 3)).toEqual(['/work/app']);
+      expect(server.listRoots).toHaveBeenCalledWith(undefined, { relatedRequestId: 3 });
+    });
+
+    it('should fall back to the server working directory', async () => {
+      expect(await getAllowedRoots(createServer(), {})).toEqual([process.cwd()]);
+    });
+  });
+
+  describe.skipIf(process.platform === 'win32')('resolveWorkingDirectory', () => {
+    let base: string;
+    let root: string;
+
+    beforeAll(() => {
+      base = realpathSync(mkdtempSync(join(tmpdir(), 'roots-test-')));
+      root = join(base, 'root');
+      mkdirSync(join(root, 'project', 'src'), { recursive: true });
+      mkdirSync(join(base, 'outside'));
+      mkdirSync(join(base, 'root-sibling'));
+      symlinkSync(join(base, 'outside'), join(root, 'escape'));
+      symlinkSync(join(root, 'project'), join(base, 'link-to-project'));
+    });
+
+    afterAll(() => {
+      rmSync(base, { recursive: true, force: true });
+    });
+
+    it('should accept directories inside a root', () => {
+      expect(resolveWorkingDirectory(join(root, 'project', 'src'), [root])).toBe(
+        join(root, 'project', 'src')
+      );
+      expect(resolveWorkingDirectory(root, [root])).toBe(root);
+    });
+
+    it('should resolve relative paths against the first root', () => {
+      expect(resolveWorkingDirectory('project', [root])).toBe(join(root, 'project'));
+    });
+
+    it('should reject directories outside the roots', () => {
+      expect(() => resolveWorkingDirectory(join(base, 'outside'), [root])).toThrow(
+        PolicyViolationError
+      );
+      expect(() => resolveWorkingDirectory('../root-sibling', [root])).toThrow(
+        /outside the allowed roots/
+      );
+    });
+
+    it('should follow symlinks before checking', () => {
+      expect(() => resolveWorkingDirectory(join(root, 'escape'), [root])).toThrow(
+        /outside the allowed roots/
+      );
+      expect(resolveWorkingDirectory(join(base, 'link-to-project'), [root])).toBe(
+        join(root, 'project')
+      );
+    });
+
+    it('should reject directories that do not exist', () => {
+      expect(() => resolveWorkingDirectory('missing', [root])).toThrow(/does not exist/);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getToolAnnotations } from '../src/utils/toolAnnotations.js';
+
+describe('getToolAnnotations', () => {
+  it('should mark read tools as read-only and non-destructive', () => {
+    expect(getToolAnnotations({}, 'pods-list')).toEqual({
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+    });
+  });
+
+  it('should mark removal tools as destructive', () => {
+    expect(getToolAnnotations({}, 'image-prune')).toEqual({
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+    });
+  });
+
+  it('should infer from help text when the name has no verb', () => {
+    const annotations = getToolAnnotations({}, 'rmi', 'Remove one or more images');
+
+    expect(annotations.readOnlyHint).toBe(false);
+    expect(annotations.destructiveHint).toBe(true);
+  });
+
+  it('should apply per-tool access and annotation overrides', () => {
+    const config = {
+      tools: {
+        'config-*': { access: 'read' as const },
+        'config-view': { annotations: { openWorldHint: false, idempotentHint: false } },
+      },
+    };
+
+    expect(getToolAnnotations(config, 'config-view')).toEqual({
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertCommandToTools,
+  createArgumentMap,
+  createZodSchema,
+  detectJsonOutputArgs,
+} from '../src/utils/toolConverter.js';
+import { CliCommand, CliOption } from '../src/types/cli.js';
+
+function option(name: string, description: string, valueRequired: boolean): CliOption {
+  return { name, description, valueRequired };
+}
+
+describe('Tool conversion', () => {
+  describe('detectJsonOutputArgs', () => {
+    it('should detect a --json switch', () => {
+      expect(detectJsonOutputArgs([option('--json', 'Output JSON', false)])).toEqual(['--json']);
+    });
+
+    it('should detect output format options that accept json', () => {
+      expect(
+        detectJsonOutputArgs([
+          option('--output', 'Output format. Allowed values: json, table, yaml', true),
+        ])
+      ).toEqual(['--output', 'json']);
+      expect(
+        detectJsonOutputArgs([
+          { ...option('--out-fmt', 'One of: json|yaml|wide', true), shortName: '-o' },
+        ])
+      ).toEqual(['--out-fmt', 'json']);
+      expect(
+        detectJsonOutputArgs([option('--format', 'Pretty-print using a Go template or json', true)])
+      ).toEqual(['--format', 'json']);
+    });
+
+    it('should follow the syntax of single-dash and equals options', () => {
+      expect(detectJsonOutputArgs([option('-json', 'Machine-readable output', false)])).toEqual([
+        '-json',
+      ]);
+      expect(
+        detectJsonOutputArgs([
+          { ...option('--format', 'Output format', true), choices: ['json'], syntax: 'equals' },
+        ])
+      ).toEqual(['--format=json']);
+    });
+
+    it('should not use a --json option that takes a value as the switch', () => {
+      expect(detectJsonOutputArgs([option('--json', 'Output JSON with the fields', true)])).toBe(
+        undefined
+      );
+    });
+
+    it('should ignore options that need more than the word json', () => {
+      expect(
+        detectJsonOutputArgs([option('--json', 'Output JSON with the specified fields', true)])
+      ).toBeUndefined();
+      expect(detectJsonOutputArgs([option('--output', 'Write to file', true)])).toBeUndefined();
+      expect(detectJsonOutputArgs([])).toBeUndefined();
+    });
+  });
+
+  describe('createArgumentMap', () => {
+    it('should name single-dash long options without the dash and keep their syntax', () => {
+      const command: CliCommand = {
+        name: 'apply',
+        description: 'Apply',
+        subcommands: [],
+        arguments: [],
+        options: [{ ...option('-var-file', 'Variables file', true), syntax: 'equals' }],
+      };
+
+      expect(createArgumentMap(command)).toEqual({
+        varFile: { type: 'option', flag: '-var-file', valueRequired: true, syntax: 'equals' },
+      });
+    });
+
+    it('should keep the equals syntax off short aliases', () => {
+      const command: CliCommand = {
+        name: 'ls',
+        description: 'List',
+        subcommands: [],
+        arguments: [],
+        options: [
+          { ...option('--width', 'Line width', true), shortName: '-w', syntax: 'equals' },
+          {
+            ...option('--gpg-sign', 'Sign', true),
+            shortName: '-S',
+            syntax: 'equals',
+            shortSyntax: 'attached',
+          },
+        ],
+      };
+
+      expect(createArgumentMap(command)).toEqual({
+        width: { type: 'option', flag: '--width', valueRequired: true, syntax: 'equals' },
+        w: { type: 'option', flag: '-w', valueRequired: true },
+        gpgSign: { type: 'option', flag: '--gpg-sign', valueRequired: true, syntax: 'equals' },
+        S: { type: 'option', flag: '-S', valueRequired: true, syntax: 'attached' },
+      });
+    });
+
+    it('should map the short alias of a negation to its own switch', () => {
+      const command: CliCommand = {
+        name: 'commit',
+        description: 'Commit',
+        subcommands: [],
+        arguments: [],
+        options: [
+          {
+            ...option('--verify', 'Run hooks', false),
+            negation: '--no-verify',
+            negationShortName: '-n',
+          },
+        ],
+      };
+      const [tool] = convertCommandToTools(command, 'commit');
+
+      expect(tool.argumentMap).toEqual({
+        verify: { type: 'option', flag: '--verify', valueRequired: false, negation: '--no-verify' },
+        n: { type: 'option', flag: '-n', valueRequired: false },
+      });
+      expect(tool.inputSchema.properties).toMatchObject({
+        n: { type: 'boolean', description: 'Alias for verify set to false (--no-verify)' },
+      });
+    });
+
+    it('should map options, short aliases and positionals by schema property name', () => {
+      const command: CliCommand = {
+        name: 'cp',
+        description: 'Copy files',
+        subcommands: [],
+        options: [
+          { ...option('--output', 'Output file', true), shortName: '-o' },
+          option('--dry-run', 'Only print', false),
+        ],
+        arguments: [
+          { name: 'SOURCE', description: 'Source', required: true },
+          { name: 'dest-dir', description: 'Destination', required: false },
+        ],
+      };
+
+      expect(createArgumentMap(command)).toEqual({
+        output: { type: 'option', flag: '--output', valueRequired: true },
+        o: { type: 'option', flag: '-o', valueRequired: true },
+        dryRun: { type: 'option', flag: '--dry-run', valueRequired: false },
+        SOURCE: { type: 'positional', index: 0 },
+        destDir: { type: 'positional', index: 1 },
+      });
+    });
+  });
+
+  describe('typed schemas', () => {
+    const command: CliCommand = {
+      name: 'tool',
+      description: 'Tool',
+      subcommands: [],
+      options: [
+        { ...option('--lines', 'Lines', true), valueType: 'number', shortName: '-n' },
+        { ...option('--format', 'Format', true), choices: ['json', 'yaml'] },
+        { ...option('--env', 'Environment', true), repeatable: true, shortName: '-e' },
+        { ...option('--port', 'Ports', true), valueType: 'number', repeatable: true },
+      ],
+      arguments: [{ name: 'files', description: 'Files', required: true, variadic: true }],
+    };
+    const [tool] = convertCommandToTools(command, 'tool');
+
+    it('should create number, enum and array properties', () => {
+      expect(tool.inputSchema.properties).toMatchObject({
+        lines: { type: 'number', description: 'Lines' },
+        n: { type: 'number', description: 'Alias for lines' },
+        format: { type: 'string', enum: ['json', 'yaml'] },
+        env: { type: 'array', items: { type: 'string' } },
+        e: { type: 'array', items: { type: 'string' } },
+        port: { type: 'array', items: { type: 'number' } },
+        files: { type: 'array', items: { type: 'string' } },
+      });
+      expect(tool.inputSchema.required).toEqual(['files']);
+    });
+
+    it('should validate calls against the typed schema', () => {
+      const schema = createZodSchema(tool.inputSchema);
+
+      expect(
+        schema.safeParse({ lines: 5, format: 'json', env: ['A=1'], files: ['a', 'b'] }).success
+      ).toBe(true);
+      expect(schema.safeParse({ lines: '5', files: [] }).success).toBe(false);
+      expect(schema.safeParse({ format: 'xml', files: [] }).success).toBe(false);
+      expect(schema.safeParse({ files: 'a' }).success).toBe(false);
+    });
+
+    it('should expose defaults and fill them in when validating', () => {
+      const [withDefaults] = convertCommandToTools(
+        {
+          name: 'tool',
+          description: 'Tool',
+          subcommands: [],
+          arguments: [],
+          options: [{ ...option('--depth', 'Depth', true), valueType: 'number', defaultValue: 3 }],
+        },
+        'tool'
+      );
+
+      expect(withDefaults.inputSchema.properties).toMatchObject({
+        depth: { type: 'number', default: 3 },
+      });
+      expect(createZodSchema(withDefaults.inputSchema).parse({})).toEqual({ depth: 3 });
+      expect(withDefaults.argumentMap?.depth).toEqual({
+        type: 'option',
+        flag: '--depth',
+        valueRequired: true,
+        defaultValue: 3,
+      });
+    });
+
+    it('should detect JSON output from choices', () => {
+      expect(
+        detectJsonOutputArgs([{ ...option('--format', 'Format', true), choices: ['json', 'text'] }])
+      ).toEqual(['--format', 'json']);
+    });
+  });
+
+  describe('convertCommandToTools', () => {
+    it('should record JSON output arguments on each tool', () => {
+      const root: CliCommand = {
+        name: 'kubectl',
+        description: 'Kubernetes CLI',
+        options: [],
+        arguments: [],
+        subcommands: [
+          {
+            name: 'get',
+            description: 'Display resources',
+            subcommands: [],
+            arguments: [],
+            options: [
+              { ...option('--output', 'Output format: json|yaml|wide', true), shortName: '-o' },
+            ],
+          },
+        ],
+      };
+
+      const tools = convertCommandToTools(root, 'kubectl');
+
+      expect(tools.find(t => t.name === 'kubectl')?.jsonOutputArgs).toBeUndefined();
+      expect(tools.find(t => t.name === 'get')?.jsonOutputArgs).toEqual(['--output', 'json']);
+    });
+  });
+});
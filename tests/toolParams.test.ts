@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  createControlParamsShape,
+  DEFAULT_MAX_TIMEOUT_MS,
+  resolveTimeout,
+  splitControlParams,
+} from '../src/mcp/toolParams.js';
+
+describe('Tool control parameters', () => {
+  describe('createControlParamsShape', () => {
+    it('should add an optional timeoutMs bounded by the server maximum', () => {
+      const schema = z.object(createControlParamsShape({ maxTimeoutMs: 60000 }));
+
+      expect(schema.safeParse({}).success).toBe(true);
+      expect(schema.safeParse({ timeoutMs: 30000 }).success).toBe(true);
+      expect(schema.safeParse({ timeoutMs: 90000 }).success).toBe(false);
+      expect(schema.safeParse({ timeoutMs: -1 }).success).toBe(false);
+    });
+
+    it('should skip names already used by the CLI', () => {
+      expect(createControlParamsShape({}, { reserved: ['timeoutMs'] })).not.toHaveProperty(
+        'timeoutMs'
+      );
+    });
+
+    it('should only offer outputFormat for commands with JSON output', () => {
+      expect(createControlParamsShape({})).not.toHaveProperty('outputFormat');
+
+      const schema = z.object(createControlParamsShape({}, { jsonOutput: true }));
+      expect(schema.safeParse({ outputFormat: 'json' }).success).toBe(true);
+      expect(schema.safeParse({ outputFormat: 'xml' }).success).toBe(false);
+    });
+
+    it('should only offer stdin when enabled for the tool', () => {
+      expect(createControlParamsShape({})).not.toHaveProperty('stdin');
+
+      const schema = z.object(createControlParamsShape({}, { stdin: true }));
+      expect(schema.safeParse({ stdin: 'apiVersion: v1' }).success).toBe(true);
+      expect(schema.safeParse({ stdin: 42 }).success).toBe(false);
+    });
+  });
+
+  describe('splitControlParams', () => {
+    it('should keep control parameters out of the command parameters', () => {
+      const { commandParams, controlParams } = splitControlParams(
+        { verbose: true, timeoutMs: 5000 },
+        ['timeoutMs']
+      );
+
+      expect(commandParams).toEqual({ verbose: true });
+      expect(controlParams).toEqual({ timeoutMs: 5000 });
+    });
+
+    it('should leave names that are not control parameters for the command', () => {
+      const { commandParams } = splitControlParams({ timeoutMs: 5000 }, []);
+
+      expect(commandParams).toEqual({ timeoutMs: 5000 });
+    });
+  });
+
+  describe('resolveTimeout', () => {
+    const config = {
+      timeoutMs: 30000,
+      maxTimeoutMs: 900000,
+      tools: { plan: { timeoutMs: 600000 } },
+    };
+
+    it('should prefer the requested timeout within the maximum', () => {
+      expect(resolveTimeout(config, 'plan', 120000)).toBe(120000);
+      expect(resolveTimeout(config, 'plan', 5000000)).toBe(900000);
+    });
+
+    it('should fall back to the per-tool and then global timeout', () => {
+      expect(resolveTimeout(config, 'plan')).toBe(600000);
+      expect(resolveTimeout(config, 'fmt')).toBe(30000);
+      expect(resolveTimeout({}, 'fmt')).toBe(10000);
+    });
+
+    it('should raise the default maximum to cover a larger global timeout', () => {
+      expect(resolveTimeout({}, 'fmt', 5000000)).toBe(DEFAULT_MAX_TIMEOUT_MS);
+      expect(resolveTimeout({ timeoutMs: 1200000 }, 'fmt', 5000000)).toBe(1200000);
+    });
+  });
+});